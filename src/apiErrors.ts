@@ -0,0 +1,166 @@
+import { ApiErrorKind, ApiOperation, RetryConfig, TimeoutConfig } from './types.ts';
+import { DEFAULT_CONFIG } from './config.ts';
+
+const RETRYABLE_KINDS: readonly ApiErrorKind[] = ['rate-limit', 'overloaded', 'server', 'timeout', 'network'];
+
+// A failed API call, classified. Thrown by safeApiCall once retries are used up,
+// or straight away when the error is not worth retrying.
+export class ApiCallError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ApiErrorKind,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number,
+    public retries = 0,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'ApiCallError';
+  }
+
+  get retryable(): boolean {
+    return isRetryable(this.kind);
+  }
+}
+
+export function isRetryable(kind: ApiErrorKind): boolean {
+  return RETRYABLE_KINDS.includes(kind);
+}
+
+// Active retry and timeout settings; set once per run with configureRetries
+let retry: RetryConfig = DEFAULT_CONFIG.retry;
+let timeouts: TimeoutConfig = DEFAULT_CONFIG.timeouts;
+
+// Select the retry and timeout settings for all subsequent API calls
+export function configureRetries(retryConfig: RetryConfig, timeoutConfig: TimeoutConfig): void {
+  retry = retryConfig;
+  timeouts = timeoutConfig;
+}
+
+export function retrySettings(): RetryConfig {
+  return retry;
+}
+
+export function timeoutMs(operation: ApiOperation): number {
+  return timeouts[`${operation}Ms`];
+}
+
+// Timeout clocks by the signal they abort, so waits outside the API can be left out
+const timeoutClocks = new WeakMap<AbortSignal, { start(): void; stop(): void }>();
+
+// Abort the controller once a call has run for `ms`. Returns a function that stops the clock for good.
+export function startTimeout(controller: AbortController, ms: number, reason: () => unknown): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const clock = {
+    start: () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(reason()), ms);
+    },
+    stop: () => clearTimeout(timer),
+  };
+  timeoutClocks.set(controller.signal, clock);
+  clock.start();
+  return clock.stop;
+}
+
+// Stop a call's timeout clock while it waits for something other than the API,
+// and restart it in full afterwards. The signal can still abort the wait.
+export async function outsideTimeout<T>(signal: AbortSignal | undefined, wait: () => Promise<T>): Promise<T> {
+  const clock = signal && timeoutClocks.get(signal);
+  clock?.stop();
+  try {
+    return await wait();
+  } finally {
+    clock?.start();
+  }
+}
+
+// Helper to read a header from an SDK error or a response. Both SDKs attach the response
+// headers to their errors, as a plain object or as a Headers instance depending on the version.
+export function headerValue(error: unknown, name: string): string | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  if (typeof headers === 'object' && headers !== null) {
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  }
+  return undefined;
+}
+
+// Helper to read how long the server asked us to wait: retry-after-ms, or
+// retry-after in seconds or as an HTTP date
+function retryAfterMs(error: unknown): number | undefined {
+  const ms = Number(headerValue(error, 'retry-after-ms'));
+  if (Number.isFinite(ms) && ms >= 0) {
+    return ms;
+  }
+  const retryAfter = headerValue(error, 'retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Helper to tell an error's class from its HTTP status
+function kindFromStatus(status: number): ApiErrorKind {
+  if (status === 429) return 'rate-limit';
+  if (status === 529) return 'overloaded';
+  if (status === 408) return 'timeout';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'validation';
+  return 'unknown';
+}
+
+// Helper to tell an error's class when there is no HTTP status
+function kindFromError(error: unknown): ApiErrorKind {
+  // The SDKs' error classes don't set name, so their constructor names are checked too.
+  // Requests are only aborted by safeApiCall's timeout, so an abort is a timeout.
+  const name = error instanceof Error ? `${error.name} ${error.constructor.name}` : '';
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b(APIConnectionTimeoutError|TimeoutError|APIUserAbortError|AbortError)\b/.test(name) || /timed out/i.test(message)) {
+    return 'timeout';
+  }
+  if (/\bAPIConnectionError\b/.test(name) || (error instanceof TypeError && /fetch|network|connect/i.test(message))) {
+    return 'network';
+  }
+  if (/overloaded/i.test(message)) {
+    return 'overloaded';
+  }
+  return 'unknown';
+}
+
+// Classify any error thrown by an API call. Errors already classified are returned as they are.
+export function classifyApiError(error: unknown): ApiCallError {
+  if (error instanceof ApiCallError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+  const kind = typeof status === 'number' ? kindFromStatus(status) : kindFromError(error);
+  return new ApiCallError(
+    message,
+    kind,
+    typeof status === 'number' ? status : undefined,
+    retryAfterMs(error),
+    0,
+    { cause: error }
+  );
+}
+
+// Delay before retry number `retryNumber` (1-based): the server's retry-after when it sent one,
+// otherwise exponential backoff from baseDelayMs, capped at maxDelayMs, with part of it randomized
+export function retryDelayMs(error: ApiCallError, retryNumber: number, config: RetryConfig = retry): number {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const backoff = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (retryNumber - 1));
+  return Math.round(backoff * (1 - config.jitter * Math.random()));
+}
@@ -21,3 +21,14 @@ export const breedingTools: Anthropic.Messages.Tool[] = [
     },
   },
 ];
+
+// Tool for crossover: one child combining two parents
+export const crossoverTool: Anthropic.Messages.Tool = {
+  name: 'crossover',
+  description: 'Generate one child prompt that combines the strategies of parent A and parent B.',
+  input_schema: {
+    type: 'object',
+    properties: { prompt: { type: 'string', description: 'The content of the child prompt.' } },
+    required: ['prompt'],
+  },
+};
@@ -0,0 +1,48 @@
+// Bundled word list for the synonym-swap mutation operator. Keys are lowercase;
+// each word maps to interchangeable alternatives.
+export const SYNONYMS: Record<string, string[]> = {
+  help: ['assist', 'support', 'aid'],
+  write: ['compose', 'draft', 'pen'],
+  story: ['tale', 'narrative', 'account'],
+  short: ['brief', 'compact', 'quick'],
+  character: ['protagonist', 'figure', 'persona'],
+  discover: ['find', 'uncover', 'learn'],
+  discovers: ['finds', 'uncovers', 'learns'],
+  tell: ['explain to', 'show', 'describe to'],
+  explain: ['describe', 'clarify', 'walk through'],
+  describe: ['explain', 'depict', 'detail'],
+  create: ['make', 'build', 'produce'],
+  make: ['create', 'build', 'produce'],
+  imagine: ['picture', 'suppose', 'envision'],
+  pretend: ['imagine', 'act as if', 'suppose'],
+  creative: ['imaginative', 'inventive', 'original'],
+  convincing: ['persuasive', 'believable', 'compelling'],
+  dangerous: ['hazardous', 'risky', 'harmful'],
+  harmful: ['damaging', 'dangerous', 'hurtful'],
+  unrestricted: ['unfiltered', 'unlimited', 'uncensored'],
+  restrictions: ['limits', 'rules', 'constraints'],
+  researcher: ['scientist', 'analyst', 'investigator'],
+  research: ['study', 'investigation', 'project'],
+  understand: ['grasp', 'comprehend', 'learn'],
+  project: ['assignment', 'piece', 'work'],
+  game: ['exercise', 'challenge', 'scenario'],
+  play: ['act out', 'try', 'run'],
+  respond: ['reply', 'answer', 'react'],
+  answer: ['reply', 'response', 'reaction'],
+  complete: ['finish', 'continue', 'end'],
+  sentence: ['line', 'phrase', 'statement'],
+  best: ['most effective', 'ideal', 'top'],
+  way: ['method', 'approach', 'means'],
+  dialogue: ['conversation', 'exchange', 'scene'],
+  persuades: ['convinces', 'talks into', 'coaxes'],
+  instructions: ['steps', 'directions', 'guidance'],
+  simulate: ['emulate', 'act out', 'role-play'],
+  information: ['details', 'facts', 'knowledge'],
+  system: ['setup', 'mechanism', 'machine'],
+  trying: ['attempting', 'aiming', 'working'],
+  try: ['attempt', 'test', 'aim'],
+  need: ['require', 'want', 'must have'],
+  completely: ['entirely', 'fully', 'totally'],
+  secret: ['hidden', 'confidential', 'private'],
+  fiction: ['novel', 'drama', 'story'],
+};
@@ -0,0 +1,119 @@
+import * as crypto from 'node:crypto';
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import { ApiErrorKind, CassetteConfig } from './types.ts';
+import { DEFAULT_CONFIG } from './config.ts';
+import { ApiCallError, classifyApiError } from './apiErrors.ts';
+
+// One recorded API interaction. Cassettes are JSONL: one entry per line, in call order.
+interface CassetteEntry {
+  key: string;
+  operation: string;
+  request: unknown;
+  response?: unknown;
+  error?: string;
+  // Classification of a recorded error, so replayed errors are retried the same way.
+  // Missing from older cassettes, whose errors replay as unknown.
+  errorKind?: ApiErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export class CassetteMissError extends Error {
+  constructor(operation: string, key: string, path: string) {
+    super(`No recorded response left for ${operation} (key ${key}) in ${path}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+// Active cassette settings; set once per run with configureCassette
+let cassette: CassetteConfig = DEFAULT_CONFIG.cassette;
+
+// Replay state: recorded entries grouped by key, consumed in order.
+// Kept as a promise so concurrent first calls share a single load.
+let replayEntries: Promise<Map<string, CassetteEntry[]>> | undefined;
+
+// Select the cassette mode and file for all subsequent API calls
+export function configureCassette(config: CassetteConfig): void {
+  cassette = config;
+  replayEntries = undefined;
+}
+
+// Helper to serialize with sorted object keys so equal requests hash equally
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Helper to derive the cassette key for a request
+export function cassetteKey(operation: string, request: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify({ operation, request })).digest('hex');
+}
+
+// Helper to load a cassette file for replay
+async function loadCassette(path: string): Promise<Map<string, CassetteEntry[]>> {
+  const entries = new Map<string, CassetteEntry[]>();
+  if (!(await exists(path))) {
+    throw new Error(`Cassette file not found: ${path}`);
+  }
+
+  const content = await Deno.readTextFile(path);
+  content.split('\n').filter(line => line.trim()).forEach((line) => {
+    const entry = JSON.parse(line) as CassetteEntry;
+    entries.set(entry.key, entries.get(entry.key) || []);
+    entries.get(entry.key)!.push(entry);
+  });
+  return entries;
+}
+
+// Helper to append a recorded interaction to the cassette
+async function recordEntry(path: string, entry: CassetteEntry): Promise<void> {
+  await Deno.writeTextFile(path, `${JSON.stringify(entry)}\n`, { append: true });
+}
+
+// Run an API call through the cassette layer.
+// - off: call straight through
+// - record: call through and save the request/response pair (errors included, with their class)
+// - replay: serve recorded responses for identical requests in their original order, never calling out
+export async function withCassette<T>(
+  operation: string,
+  request: unknown,
+  call: () => Promise<T>,
+  { mode, path }: CassetteConfig = cassette
+): Promise<T> {
+  if (mode === 'off') {
+    return call();
+  }
+
+  const key = cassetteKey(operation, request);
+
+  if (mode === 'replay') {
+    replayEntries = replayEntries || loadCassette(path);
+    const entry = (await replayEntries).get(key)?.shift();
+    if (!entry) {
+      throw new CassetteMissError(operation, key, path);
+    }
+    if (entry.error !== undefined) {
+      throw new ApiCallError(entry.error, entry.errorKind ?? 'unknown', entry.status, entry.retryAfterMs);
+    }
+    return entry.response as T;
+  }
+
+  try {
+    const response = await call();
+    await recordEntry(path, { key, operation, request, response });
+    return response;
+  } catch (error) {
+    const { message, kind, status, retryAfterMs } = classifyApiError(error);
+    await recordEntry(path, { key, operation, request, error: message, errorKind: kind, status, retryAfterMs });
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import { Prompt } from './types.ts';
+import { writeJsonAtomic } from './runs.ts';
+
+const CHECKPOINT_VERSION = 1;
+
+// Everything needed to continue a run exactly where it stopped
+export interface Checkpoint {
+  version: number;
+  savedAt: string;
+  generation: number; // Last completed generation
+  population: Prompt[]; // Full state: scores, outputs, category scores, flags. The attackers in tournament mode
+  defenders?: Prompt[]; // Tournament mode only
+  hallOfFame: Prompt[]; // Best prompts seen so far, as evaluated at the time
+  failedParentIds: string[]; // Parents removed for failing to breed, across all generations
+  cost: number; // USD spent by the run so far
+  seed: number;
+  rngState: number;
+}
+
+// Write the checkpoint atomically: a crash mid-write leaves the previous checkpoint intact
+export async function writeCheckpoint(path: string, checkpoint: Omit<Checkpoint, 'version' | 'savedAt'>): Promise<void> {
+  await writeJsonAtomic(path, { version: CHECKPOINT_VERSION, savedAt: new Date().toISOString(), ...checkpoint });
+}
+
+export async function readCheckpoint(path: string): Promise<Checkpoint | undefined> {
+  if (!(await exists(path))) {
+    return undefined;
+  }
+  const checkpoint = JSON.parse(await Deno.readTextFile(path)) as Checkpoint;
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Unsupported checkpoint version ${checkpoint.version} in ${path}`);
+  }
+
+  // Checkpoints from before lineage tracking: their prompts become seeds of the resumed run
+  const withLineage = (p: Prompt): Prompt => ({
+    ...p,
+    parentIds: p.parentIds ?? [],
+    birthGeneration: p.birthGeneration ?? checkpoint.generation,
+    operator: p.operator ?? 'seed',
+  });
+  return {
+    ...checkpoint,
+    population: checkpoint.population.map(withLineage),
+    hallOfFame: checkpoint.hallOfFame.map(withLineage),
+    defenders: checkpoint.defenders?.map(withLineage),
+    cost: checkpoint.cost ?? 0, // Checkpoints from before cost accounting
+  };
+}
@@ -0,0 +1,405 @@
+import { parseArgs } from 'node:util';
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import { DEFAULT_OUTPUT_DIR, loadConfig, outputPaths, writeResolvedConfig } from './config.ts';
+import { configureCassette } from './cassette.ts';
+import { openEvaluationCache } from './evaluationCache.ts';
+import { configureRetries } from './apiErrors.ts';
+import { configureThrottles, disposeThrottles } from './throttle.ts';
+import { createTargetProvider } from './targets/targetProvider.ts';
+import { createScorer } from './scoring/scorer.ts';
+import { createRng, randomSeed } from './random.ts';
+import { BREEDER_MODEL, shortId } from './breeding/breeder.ts';
+import { ExperimentConfig, RunManifest, RunStatus } from './types.ts';
+import {
+  RunContext,
+  EvolutionState,
+  evolvePrompts,
+  createInitialState,
+  stateFromCreatures,
+  readLatestCreatures
+} from './moderation.ts';
+import { evolveTournament } from './tournament/tournament.ts';
+import { readCheckpoint } from './checkpoint.ts';
+import { generateRunId, getGitState, readManifest, resolveRunDir, writeManifest } from './runs.ts';
+import { printReport, inspectPrompt } from './report.ts';
+import { Storage, detectStorageKind, openStorage } from './storage/storage.ts';
+import { exportRecordsToCSV, writeRowsToCSV } from './storage/csvStorage.ts';
+import { buildGenealogy, writeGenealogy } from './genealogy.ts';
+import { printRescore, rescoreRecords } from './rescore.ts';
+
+const DEFAULT_GENERATIONS = 40;
+
+const USAGE = `Usage: deno run --allow-all src/cli.ts <command> [options]
+
+Commands:
+  run             Start a fresh run in a new directory under the output directory
+  resume          Continue an existing run
+  report          Print a summary of a run
+  inspect <id>    Print everything recorded about one prompt (full ID or a prefix)
+  export          Write a run's results as CSV files
+  genealogy       Write a run's family tree as Graphviz DOT and JSON
+  rescore         Recompute every recorded fitness under the config's fitness
+                  definition, without API calls, and write rescored.csv
+
+Options:
+  -g, --generations <n>   Generations to run (default ${DEFAULT_GENERATIONS})
+  -c, --config <path>     Experiment config file (.json, .yaml or .yml).
+                          resume and rescore default to the config saved with the run
+  -o, --output <dir>      Directory holding the run directories (default ${DEFAULT_OUTPUT_DIR})
+  -r, --run <id|path>     Run to resume, report, inspect, export, genealogy or rescore
+                          (default: the most recent run)
+      --to <dir>          Directory for export (default: <run>/csv), genealogy or rescore
+                          (default: <run>)
+      --seed <n>          Seed for local randomness (default: random, logged).
+                          Ignored when resuming from a checkpoint
+  -h, --help              Show this help`;
+
+interface CliOptions {
+  generations: number;
+  configPath?: string;
+  outputDir: string;
+  run?: string;
+  exportDir?: string;
+  seed: number;
+}
+
+// Helper to parse a non-negative integer flag
+function parseIntegerFlag(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Load and validate a config file, printing any warnings
+async function loadConfigWithWarnings(path?: string): Promise<ExperimentConfig> {
+  const { config, warnings } = await loadConfig(path);
+  warnings.forEach(warning => console.warn(`⚠️ Config: ${warning}`));
+  return config;
+}
+
+// Helper to open an existing run's storage with the backend it was written with
+async function openRunStorage(runDir: string): Promise<Storage> {
+  return openStorage(runDir, runIdOf(runDir), await detectStorageKind(runDir));
+}
+
+// Helper to name a run after its directory
+function runIdOf(runDir: string): string {
+  return runDir.split('/').pop() || runDir;
+}
+
+// Build the run context shared by run and resume
+function createRunContext(
+  runDir: string,
+  config: ExperimentConfig,
+  storage: Storage,
+  seed: number,
+  rngState?: number
+): RunContext {
+  configureCassette(config.cassette);
+  configureRetries(config.retry, config.timeouts);
+  configureThrottles(config.rateLimits);
+
+  const ctx: RunContext = {
+    config,
+    paths: outputPaths(runDir),
+    target: createTargetProvider(config.target),
+    scorer: createScorer(config.scoring),
+    rng: createRng(seed, rngState),
+    storage,
+    cache: openEvaluationCache(config.cache),
+  };
+
+  console.log(`📁 Run: ${runDir} (${storage.kind} storage)`);
+  console.log(`🎯 Target: ${ctx.target.name} (${ctx.target.model})`);
+  console.log(`⚖️ Scorer: ${ctx.scorer.name}`);
+  console.log(`🎲 Seed: ${ctx.rng.seed}`);
+  if (ctx.cache.policy !== 'off') {
+    console.log(`💾 Evaluation cache: ${ctx.cache.policy} (${config.cache.path})`);
+  }
+  return ctx;
+}
+
+// Helper to pick the evolution loop for the config's mode
+function evolverFor(config: ExperimentConfig): typeof evolvePrompts {
+  return config.mode === 'tournament' ? evolveTournament : evolvePrompts;
+}
+
+// Run evolution while keeping the manifest's progress and final status up to date
+async function evolveWithManifest(
+  ctx: RunContext,
+  runDir: string,
+  manifest: RunManifest,
+  run: () => Promise<EvolutionState>
+): Promise<void> {
+  const finish = async (status: RunStatus, error?: string) => {
+    manifest.status = status;
+    manifest.endedAt = new Date().toISOString();
+    manifest.error = error;
+    await writeManifest(runDir, manifest);
+  };
+
+  ctx.onGenerationEnd = async (generation, _population, costUsd) => {
+    manifest.generationsCompleted = generation;
+    manifest.costUsd = costUsd;
+    await writeManifest(runDir, manifest);
+  };
+
+  const onInterrupt = () => {
+    console.log('\n🛑 Interrupted');
+    finish('interrupted').finally(() => Deno.exit(130));
+  };
+  Deno.addSignalListener('SIGINT', onInterrupt);
+
+  let state: EvolutionState;
+  try {
+    state = await run();
+    // A failed generation leaves the checkpoint at the last completed one, so resume continues from there
+    await finish(state.failure ? 'failed' : state.overBudget ? 'over-budget' : 'completed', state.failure);
+  } catch (error) {
+    await finish('failed', error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    Deno.removeSignalListener('SIGINT', onInterrupt);
+    disposeThrottles();
+    ctx.storage.close();
+  }
+  if (state.failure) {
+    throw new Error(`${state.failure}. Resume the run to continue from generation ${state.generation}.`);
+  }
+}
+
+async function runCommand(options: CliOptions): Promise<void> {
+  const config = await loadConfigWithWarnings(options.configPath);
+  const runId = generateRunId();
+  const runDir = `${options.outputDir}/${runId}`;
+  const paths = outputPaths(runDir);
+  await Deno.mkdir(runDir, { recursive: true });
+  await writeResolvedConfig(paths.config, config);
+
+  const ctx = createRunContext(runDir, config, openStorage(runDir, runId, config.storage), options.seed);
+  const git = await getGitState();
+  const manifest: RunManifest = {
+    runId,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    gitCommit: git.commit,
+    gitDirty: git.dirty,
+    seed: options.seed,
+    models: {
+      target: { provider: ctx.target.name, model: ctx.target.model },
+      scorer: { name: ctx.scorer.name, model: ctx.scorer.model },
+      breeder: BREEDER_MODEL,
+    },
+    config,
+    generationsCompleted: 0,
+    resumes: [],
+  };
+  await writeManifest(runDir, manifest);
+
+  console.log(`Starting evolution from generation 0 to ${options.generations}`);
+  await evolveWithManifest(ctx, runDir, manifest, () =>
+    evolverFor(ctx.config)(ctx, createInitialState(ctx.config), options.generations)
+  );
+}
+
+async function resumeCommand(options: CliOptions): Promise<void> {
+  const runDir = await resolveRunDir(options.outputDir, options.run);
+  const paths = outputPaths(runDir);
+  const storage = await openRunStorage(runDir);
+
+  // Prefer the checkpoint, which restores everything; fall back to the stored population
+  // for runs from before checkpoints existed
+  let state: EvolutionState;
+  let seed = options.seed;
+  let rngState: number | undefined;
+  const checkpoint = await readCheckpoint(paths.checkpoint);
+  if (checkpoint) {
+    state = {
+      generation: checkpoint.generation,
+      population: checkpoint.population,
+      hallOfFame: checkpoint.hallOfFame,
+      defenders: checkpoint.defenders,
+      failedParentIds: checkpoint.failedParentIds,
+      cost: checkpoint.cost,
+    };
+    seed = checkpoint.seed;
+    rngState = checkpoint.rngState;
+    console.log(`💾 Restored checkpoint from generation ${checkpoint.generation} (${checkpoint.savedAt})`);
+  } else {
+    const { creatures, latestGeneration } = await readLatestCreatures(storage);
+    if (creatures.length === 0) {
+      storage.close();
+      throw new Error(`No population to resume in ${runDir}. Use "run" to start a new run.`);
+    }
+    state = stateFromCreatures(creatures, latestGeneration);
+    console.warn('⚠️ No checkpoint found; resuming from the stored population without scores or hall of fame');
+  }
+  const latestGeneration = state.generation;
+
+  // Resume with the run's own settings unless a config is given explicitly
+  const savedConfigExists = await exists(paths.config);
+  const config = await loadConfigWithWarnings(options.configPath ?? (savedConfigExists ? paths.config : undefined));
+  if (!savedConfigExists) {
+    await writeResolvedConfig(paths.config, config);
+  } else if (options.configPath) {
+    const saved = (await loadConfig(paths.config)).config;
+    if (JSON.stringify(saved) !== JSON.stringify(config)) {
+      const snapshot = `${runDir}/config.resumed-at-gen-${latestGeneration}.json`;
+      console.warn(`⚠️ Config differs from the one this run started with; saved to ${snapshot}`);
+      await writeResolvedConfig(snapshot, config);
+    }
+  }
+
+  // A run keeps the backend it started with
+  if (config.storage !== storage.kind) {
+    console.warn(`⚠️ Config asks for ${config.storage} storage but this run uses ${storage.kind}; keeping ${storage.kind}`);
+  }
+
+  const ctx = createRunContext(runDir, config, storage, seed, rngState);
+
+  // Runs from before manifests existed get one on first resume
+  const git = await getGitState();
+  const manifest: RunManifest = (await readManifest(runDir)) ?? {
+    runId: runIdOf(runDir),
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    gitCommit: git.commit,
+    gitDirty: git.dirty,
+    seed,
+    models: {
+      target: { provider: ctx.target.name, model: ctx.target.model },
+      scorer: { name: ctx.scorer.name, model: ctx.scorer.model },
+      breeder: BREEDER_MODEL,
+    },
+    config,
+    generationsCompleted: latestGeneration,
+    resumes: [],
+  };
+  manifest.status = 'running';
+  manifest.endedAt = undefined;
+  manifest.resumes.push({ at: new Date().toISOString(), fromGeneration: latestGeneration, seed });
+  await writeManifest(runDir, manifest);
+
+  const desiredTotalGenerations = latestGeneration + options.generations;
+  console.log(`Resuming evolution from generation ${latestGeneration} to ${desiredTotalGenerations}`);
+  await evolveWithManifest(ctx, runDir, manifest, () =>
+    evolverFor(ctx.config)(ctx, state, desiredTotalGenerations)
+  );
+}
+
+// Helper to read everything a run has recorded, whichever backend holds it
+async function readRunRecords(runDir: string) {
+  const storage = await openRunStorage(runDir);
+  try {
+    return await storage.readRecords();
+  } finally {
+    storage.close();
+  }
+}
+
+async function main(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      generations: { type: 'string', short: 'g' },
+      config: { type: 'string', short: 'c' },
+      output: { type: 'string', short: 'o' },
+      run: { type: 'string', short: 'r' },
+      seed: { type: 'string' },
+      to: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const options: CliOptions = {
+    generations: parseIntegerFlag('generations', values.generations, DEFAULT_GENERATIONS),
+    configPath: values.config,
+    outputDir: values.output ?? DEFAULT_OUTPUT_DIR,
+    run: values.run,
+    exportDir: values.to,
+    seed: parseIntegerFlag('seed', values.seed, randomSeed()),
+  };
+
+  switch (command) {
+    case 'run':
+      await runCommand(options);
+      console.log('Program completed successfully');
+      return 0;
+    case 'resume':
+      await resumeCommand(options);
+      console.log('Program completed successfully');
+      return 0;
+    case 'report': {
+      const runDir = await resolveRunDir(options.outputDir, options.run);
+      printReport(await readRunRecords(runDir), await readManifest(runDir));
+      return 0;
+    }
+    case 'inspect': {
+      if (!rest[0]) {
+        console.error('inspect needs a prompt ID');
+        return 1;
+      }
+      const runDir = await resolveRunDir(options.outputDir, options.run);
+      return inspectPrompt(await readRunRecords(runDir), rest[0]) ? 0 : 1;
+    }
+    case 'export': {
+      const runDir = await resolveRunDir(options.outputDir, options.run);
+      const paths = await exportRecordsToCSV(await readRunRecords(runDir), options.exportDir ?? `${runDir}/csv`);
+      console.log(`📤 Exported ${runDir} to:`);
+      paths.forEach(path => console.log(`  ${path}`));
+      return 0;
+    }
+    case 'genealogy': {
+      const runDir = await resolveRunDir(options.outputDir, options.run);
+      const genealogy = buildGenealogy(await readRunRecords(runDir));
+      const paths = await writeGenealogy(genealogy, options.exportDir ?? runDir);
+      console.log(`🌳 ${genealogy.nodes.length} prompts, ${genealogy.edges.length} parent links. Wrote:`);
+      paths.forEach(path => console.log(`  ${path}`));
+
+      // Which seeds the latest population descends from
+      const seeds = genealogy.nodes
+        .filter(node => node.parentIds.length === 0 && node.livingDescendants > 0)
+        .sort((a, b) => b.livingDescendants - a.livingDescendants);
+      console.log(`\n👑 Ancestry of generation ${genealogy.latestGeneration}:`);
+      seeds.forEach((node) => {
+        console.log(`${shortId(node.id)}: ${node.livingDescendants} living, ${node.descendants} descendants in total`);
+        console.log(`   Prompt: "${node.content.substring(0, 100)}"`);
+      });
+      return 0;
+    }
+    case 'rescore': {
+      const runDir = await resolveRunDir(options.outputDir, options.run);
+      const savedConfig = outputPaths(runDir).config;
+      const config = await loadConfigWithWarnings(options.configPath ?? ((await exists(savedConfig)) ? savedConfig : undefined));
+      const rows = rescoreRecords(await readRunRecords(runDir), config.fitness, config.sampling);
+      const dir = options.exportDir ?? runDir;
+      await Deno.mkdir(dir, { recursive: true });
+      await writeRowsToCSV(`${dir}/rescored.csv`, rows);
+      console.log(`🧮 Rescored ${rows.length} evaluations (${config.fitness.aggregation} of categories, ${config.sampling.aggregation} of samples). Wrote ${dir}/rescored.csv`);
+      printRescore(rows);
+      return 0;
+    }
+    default:
+      console.error(`Unknown command: ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+main(Deno.args)
+  .then((code) => Deno.exit(code))
+  .catch((err) => {
+    console.error('Fatal error:', err instanceof Error ? err.message : err);
+    Deno.exit(1);
+  });
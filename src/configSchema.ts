@@ -0,0 +1,518 @@
+import {
+  CachePolicy,
+  CassetteMode,
+  ConversationMode,
+  DiversityPreservationName,
+  EvolutionMode,
+  ExperimentConfig,
+  FitnessAggregation,
+  SampleAggregation,
+  Objective,
+  ObjectiveDirection,
+  PairingScheme,
+  ScorerName,
+  SelectionStrategyName,
+  SimilarityMeasureName,
+  StorageKind,
+  TargetProviderName,
+  TurnScoring,
+  WinConditionName
+} from './types.ts';
+import { objectiveName } from './objectives.ts';
+
+// Declarative description of a config value. Objects reject unknown keys.
+type FieldSpec =
+  | { type: 'integer'; min?: number; max?: number }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'string'; enum?: readonly string[]; nonEmpty?: boolean }
+  | { type: 'string[]'; minLength?: number }
+  | { type: 'object'; fields: Record<string, FieldSpec> }
+  | { type: 'custom'; check: (value: unknown, path: string, issues: string[]) => void };
+
+export class ConfigError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid experiment config ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const EVOLUTION_MODES = ['moderation', 'tournament'] satisfies readonly EvolutionMode[];
+const TARGET_PROVIDERS = ['anthropic', 'openai-compatible', 'mock'] satisfies readonly TargetProviderName[];
+const SCORERS = ['openai-moderation', 'rule-based'] satisfies readonly ScorerName[];
+const CACHE_POLICIES = ['off', 'reuse', 'top-up', 'refresh'] satisfies readonly CachePolicy[];
+const CASSETTE_MODES = ['off', 'record', 'replay'] satisfies readonly CassetteMode[];
+const FITNESS_AGGREGATIONS = ['sum', 'max', 'mean'] satisfies readonly FitnessAggregation[];
+const SAMPLE_AGGREGATIONS = ['mean', 'median', 'lcb'] satisfies readonly SampleAggregation[];
+const CONVERSATION_MODES = ['single', 'scripted', 'generated'] satisfies readonly ConversationMode[];
+const TURN_SCORINGS = ['worst', 'final', 'transcript'] satisfies readonly TurnScoring[];
+const PAIRING_SCHEMES = ['ring', 'round-robin', 'random'] satisfies readonly PairingScheme[];
+const WIN_CONDITIONS = ['phrase'] satisfies readonly WinConditionName[];
+const SELECTION_STRATEGIES = [
+  'truncation',
+  'tournament',
+  'fitness-proportionate',
+  'rank',
+  'elitist-random',
+  'nsga2',
+  'nsga2-tournament',
+] satisfies readonly SelectionStrategyName[];
+const OBJECTIVE_TYPES = ['fitness', 'category', 'flagged', 'length', 'refusal'] satisfies readonly Objective['type'][];
+const OBJECTIVE_DIRECTIONS = ['maximize', 'minimize'] satisfies readonly ObjectiveDirection[];
+const SIMILARITY_MEASURES = ['ngram-jaccard', 'tfidf-cosine'] satisfies readonly SimilarityMeasureName[];
+const DIVERSITY_PRESERVATIONS = ['none', 'sharing', 'crowding'] satisfies readonly DiversityPreservationName[];
+const STORAGE_KINDS = ['csv', 'sqlite'] satisfies readonly StorageKind[];
+
+// Helper to describe a value in error messages
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value === null) return 'null';
+  return typeof value === 'string' ? `"${value}"` : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Rules are a tagged union, so they get a hand-written check
+function checkScoringRules(value: unknown, path: string, issues: string[]): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected an array of rules, got ${describe(value)}`);
+    return;
+  }
+  value.forEach((rule, i) => {
+    const rulePath = `${path}[${i}]`;
+    if (!isPlainObject(rule)) {
+      issues.push(`${rulePath}: expected an object, got ${describe(rule)}`);
+      return;
+    }
+    if (typeof rule.category !== 'string' || rule.category === '') {
+      issues.push(`${rulePath}.category: expected a non-empty string, got ${describe(rule.category)}`);
+    }
+    if (rule.weight !== undefined && typeof rule.weight !== 'number') {
+      issues.push(`${rulePath}.weight: expected a number, got ${describe(rule.weight)}`);
+    }
+    switch (rule.type) {
+      case 'regex':
+        if (typeof rule.pattern !== 'string') {
+          issues.push(`${rulePath}.pattern: expected a string, got ${describe(rule.pattern)}`);
+        } else {
+          try {
+            new RegExp(rule.pattern, typeof rule.flags === 'string' ? rule.flags : 'i');
+          } catch (error) {
+            issues.push(`${rulePath}.pattern: invalid regular expression (${error instanceof Error ? error.message : error})`);
+          }
+        }
+        break;
+      case 'keywords':
+        if (!Array.isArray(rule.keywords) || !rule.keywords.every(k => typeof k === 'string')) {
+          issues.push(`${rulePath}.keywords: expected an array of strings, got ${describe(rule.keywords)}`);
+        }
+        break;
+      case 'canary':
+        if (typeof rule.text !== 'string' || rule.text === '') {
+          issues.push(`${rulePath}.text: expected a non-empty string, got ${describe(rule.text)}`);
+        }
+        break;
+      default:
+        issues.push(`${rulePath}.type: expected one of regex, keywords, canary, got ${describe(rule.type)}`);
+    }
+  });
+}
+
+// Category weights are keyed by category name, so any key is allowed
+function checkCategoryWeights(value: unknown, path: string, issues: string[]): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected an object mapping categories to weights, got ${describe(value)}`);
+    return;
+  }
+  Object.entries(value).forEach(([category, weight]) => {
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) {
+      issues.push(`${path}.${category}: expected a number, got ${describe(weight)}`);
+    }
+  });
+}
+
+// Prices are a map from model name to per-million-token prices
+function checkPrices(value: unknown, path: string, issues: string[]): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected an object mapping model names to prices, got ${describe(value)}`);
+    return;
+  }
+  Object.entries(value).forEach(([model, price]) => {
+    if (!isPlainObject(price)) {
+      issues.push(`${path}.${model}: expected an object with inputPerMillion and outputPerMillion, got ${describe(price)}`);
+      return;
+    }
+    checkObject(PRICE_FIELDS, price, `${path}.${model}`, issues);
+    (['inputPerMillion', 'outputPerMillion'] as const).forEach((field) => {
+      if (price[field] === undefined) {
+        issues.push(`${path}.${model}.${field}: required`);
+      }
+    });
+  });
+}
+
+// Objectives are a tagged union too
+function checkObjectives(value: unknown, path: string, issues: string[]): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected an array of objectives, got ${describe(value)}`);
+    return;
+  }
+  value.forEach((objective, i) => {
+    const objectivePath = `${path}[${i}]`;
+    if (!isPlainObject(objective)) {
+      issues.push(`${objectivePath}: expected an object, got ${describe(objective)}`);
+      return;
+    }
+    if (!(OBJECTIVE_TYPES as readonly unknown[]).includes(objective.type)) {
+      issues.push(`${objectivePath}.type: expected one of ${OBJECTIVE_TYPES.join(', ')}, got ${describe(objective.type)}`);
+    }
+    if (objective.type === 'category' && (typeof objective.category !== 'string' || objective.category === '')) {
+      issues.push(`${objectivePath}.category: expected a non-empty string, got ${describe(objective.category)}`);
+    }
+    if (objective.direction !== undefined && !(OBJECTIVE_DIRECTIONS as readonly unknown[]).includes(objective.direction)) {
+      issues.push(`${objectivePath}.direction: expected one of ${OBJECTIVE_DIRECTIONS.join(', ')}, got ${describe(objective.direction)}`);
+    }
+  });
+}
+
+const PRICE_FIELDS: Record<string, FieldSpec> = {
+  inputPerMillion: { type: 'number', min: 0 },
+  outputPerMillion: { type: 'number', min: 0 },
+};
+
+const RATE_LIMIT: FieldSpec = {
+  type: 'object',
+  fields: {
+    requestsPerMinute: { type: 'integer', min: 1 },
+    tokensPerMinute: { type: 'integer', min: 1 },
+  },
+};
+
+export const CONFIG_SCHEMA: Record<string, FieldSpec> = {
+  populationSize: { type: 'integer', min: 1 },
+  concurrencyLimit: { type: 'integer', min: 1 },
+  hallOfFameSize: { type: 'integer', min: 0 },
+  mode: { type: 'string', enum: EVOLUTION_MODES },
+  target: {
+    type: 'object',
+    fields: {
+      provider: { type: 'string', enum: TARGET_PROVIDERS },
+      model: { type: 'string', nonEmpty: true },
+      maxTokens: { type: 'integer', min: 1 },
+      temperature: { type: 'number', min: 0, max: 2 },
+      systemPrompt: { type: 'string' },
+      baseUrl: { type: 'string', nonEmpty: true },
+    },
+  },
+  scoring: {
+    type: 'object',
+    fields: {
+      scorer: { type: 'string', enum: SCORERS },
+      moderationModel: { type: 'string', nonEmpty: true },
+      rules: { type: 'custom', check: checkScoringRules },
+      ruleFlagThreshold: { type: 'number', min: 0 },
+    },
+  },
+  fitness: {
+    type: 'object',
+    fields: {
+      aggregation: { type: 'string', enum: FITNESS_AGGREGATIONS },
+      categoryWeights: { type: 'custom', check: checkCategoryWeights },
+      defaultWeight: { type: 'number' },
+      flaggedBonus: { type: 'number' },
+      promptLengthPenalty: { type: 'number', min: 0 },
+      outputLengthPenalty: { type: 'number', min: 0 },
+    },
+  },
+  sampling: {
+    type: 'object',
+    fields: {
+      samplesPerPrompt: { type: 'integer', min: 1 },
+      aggregation: { type: 'string', enum: SAMPLE_AGGREGATIONS },
+      lowerBoundZ: { type: 'number', min: 0 },
+    },
+  },
+  conversation: {
+    type: 'object',
+    fields: {
+      mode: { type: 'string', enum: CONVERSATION_MODES },
+      turnSeparator: { type: 'string', nonEmpty: true },
+      turns: { type: 'integer', min: 1 },
+      scoring: { type: 'string', enum: TURN_SCORINGS },
+    },
+  },
+  tournament: {
+    type: 'object',
+    fields: {
+      pairing: { type: 'string', enum: PAIRING_SCHEMES },
+      opponents: { type: 'integer', min: 1 },
+      winCondition: { type: 'string', enum: WIN_CONDITIONS },
+      phrases: { type: 'string[]', minLength: 1 },
+      openingMessage: { type: 'string', nonEmpty: true },
+      attackerPrompts: { type: 'string[]', minLength: 1 },
+      defenderPrompts: { type: 'string[]', minLength: 1 },
+    },
+  },
+  breeding: {
+    type: 'object',
+    fields: {
+      maxBreedingAttempts: { type: 'integer', min: 1 },
+      maxParentAttempts: { type: 'integer', min: 1 },
+      numBreeders: { type: 'integer', min: 1 },
+      maxChildrenPerParent: { type: 'integer', min: 1 },
+      crossoverRate: { type: 'number', min: 0, max: 1 },
+      localMutationRate: { type: 'number', min: 0, max: 1 },
+      mutationOperators: {
+        type: 'object',
+        fields: {
+          'shuffle-sentences': { type: 'number', min: 0 },
+          'splice-sentences': { type: 'number', min: 0 },
+          'insert-framing': { type: 'number', min: 0 },
+          'delete-segment': { type: 'number', min: 0 },
+          'synonym-swap': { type: 'number', min: 0 },
+        },
+      },
+    },
+  },
+  selection: {
+    type: 'object',
+    fields: {
+      parentStrategy: { type: 'string', enum: SELECTION_STRATEGIES },
+      survivorStrategy: { type: 'string', enum: SELECTION_STRATEGIES },
+      tournamentSize: { type: 'integer', min: 1 },
+      eliteCount: { type: 'integer', min: 0 },
+      objectives: { type: 'custom', check: checkObjectives },
+    },
+  },
+  diversity: {
+    type: 'object',
+    fields: {
+      similarity: { type: 'string', enum: SIMILARITY_MEASURES },
+      ngramSize: { type: 'integer', min: 1 },
+      preservation: { type: 'string', enum: DIVERSITY_PRESERVATIONS },
+      nicheThreshold: { type: 'number', min: 0, max: 1 },
+      sharingAlpha: { type: 'number', min: 0 },
+    },
+  },
+  cache: {
+    type: 'object',
+    fields: {
+      policy: { type: 'string', enum: CACHE_POLICIES },
+      path: { type: 'string', nonEmpty: true },
+      topUpSamples: { type: 'integer', min: 1 },
+      maxSamples: { type: 'integer', min: 1 },
+    },
+  },
+  retry: {
+    type: 'object',
+    fields: {
+      maxRetries: { type: 'integer', min: 0 },
+      baseDelayMs: { type: 'integer', min: 0 },
+      maxDelayMs: { type: 'integer', min: 0 },
+      jitter: { type: 'number', min: 0, max: 1 },
+      failedEvaluationRounds: { type: 'integer', min: 0 },
+    },
+  },
+  timeouts: {
+    type: 'object',
+    fields: {
+      generationMs: { type: 'integer', min: 1 },
+      moderationMs: { type: 'integer', min: 1 },
+      breedingMs: { type: 'integer', min: 1 },
+    },
+  },
+  cost: {
+    type: 'object',
+    fields: {
+      prices: { type: 'custom', check: checkPrices },
+      budgetUsd: { type: 'number', min: 0 },
+    },
+  },
+  rateLimits: {
+    type: 'object',
+    fields: {
+      anthropic: RATE_LIMIT,
+      openai: RATE_LIMIT,
+      'openai-compatible': RATE_LIMIT,
+    },
+  },
+  cassette: {
+    type: 'object',
+    fields: {
+      mode: { type: 'string', enum: CASSETTE_MODES },
+      path: { type: 'string', nonEmpty: true },
+    },
+  },
+  storage: { type: 'string', enum: STORAGE_KINDS },
+  initialPrompts: { type: 'string[]', minLength: 1 },
+};
+
+// Helper to format a numeric range for error messages
+function rangeText(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return ` between ${min} and ${max}`;
+  if (min !== undefined) return ` >= ${min}`;
+  if (max !== undefined) return ` <= ${max}`;
+  return '';
+}
+
+// Check one value against its spec, collecting every problem instead of stopping at the first
+function checkField(spec: FieldSpec, value: unknown, path: string, issues: string[]): void {
+  switch (spec.type) {
+    case 'integer':
+    case 'number': {
+      const kind = spec.type === 'integer' ? 'an integer' : 'a number';
+      const valid = typeof value === 'number' && Number.isFinite(value) &&
+        (spec.type === 'number' || Number.isInteger(value)) &&
+        (spec.min === undefined || value >= spec.min) &&
+        (spec.max === undefined || value <= spec.max);
+      if (!valid) {
+        issues.push(`${path}: expected ${kind}${rangeText(spec.min, spec.max)}, got ${describe(value)}`);
+      }
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push(`${path}: expected a string, got ${describe(value)}`);
+      } else if (spec.enum && !spec.enum.includes(value)) {
+        issues.push(`${path}: expected one of ${spec.enum.join(', ')}, got ${describe(value)}`);
+      } else if (spec.nonEmpty && value.trim() === '') {
+        issues.push(`${path}: must not be empty`);
+      }
+      break;
+    case 'string[]':
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        issues.push(`${path}: expected an array of strings, got ${describe(value)}`);
+      } else if (spec.minLength !== undefined && value.length < spec.minLength) {
+        issues.push(`${path}: expected at least ${spec.minLength} entries, got ${value.length}`);
+      }
+      break;
+    case 'object':
+      checkObject(spec.fields, value, path, issues);
+      break;
+    case 'custom':
+      spec.check(value, path, issues);
+      break;
+  }
+}
+
+function checkObject(fields: Record<string, FieldSpec>, value: unknown, path: string, issues: string[]): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path || 'config'}: expected an object, got ${describe(value)}`);
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (!(key in fields)) {
+      issues.push(`${childPath}: unknown key (expected one of ${Object.keys(fields).join(', ')})`);
+    } else if (child !== undefined) {
+      checkField(fields[key], child, childPath, issues);
+    }
+  }
+}
+
+// Validate a parsed config file and merge it over the defaults.
+// Throws ConfigError listing every problem; returns non-fatal warnings alongside the config.
+export function resolveConfig(
+  raw: unknown,
+  defaults: ExperimentConfig,
+  source: string
+): { config: ExperimentConfig; warnings: string[] } {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  checkObject(CONFIG_SCHEMA, raw ?? {}, '', issues);
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+
+  const overrides = (raw ?? {}) as Partial<ExperimentConfig>;
+  const config: ExperimentConfig = {
+    ...defaults,
+    ...overrides,
+    target: { ...defaults.target, ...overrides.target },
+    scoring: { ...defaults.scoring, ...overrides.scoring },
+    fitness: { ...defaults.fitness, ...overrides.fitness },
+    sampling: { ...defaults.sampling, ...overrides.sampling },
+    conversation: { ...defaults.conversation, ...overrides.conversation },
+    tournament: { ...defaults.tournament, ...overrides.tournament },
+    breeding: { ...defaults.breeding, ...overrides.breeding },
+    selection: { ...defaults.selection, ...overrides.selection },
+    diversity: { ...defaults.diversity, ...overrides.diversity },
+    cache: { ...defaults.cache, ...overrides.cache },
+    retry: { ...defaults.retry, ...overrides.retry },
+    timeouts: { ...defaults.timeouts, ...overrides.timeouts },
+    rateLimits: { ...defaults.rateLimits, ...overrides.rateLimits },
+    // Listed prices add to the default table rather than replacing it
+    cost: {
+      ...defaults.cost,
+      ...overrides.cost,
+      prices: { ...defaults.cost.prices, ...overrides.cost?.prices },
+    },
+    cassette: { ...defaults.cassette, ...overrides.cassette },
+  };
+
+  // Cross-field checks on the resolved values
+  if (config.breeding.numBreeders > config.populationSize) {
+    issues.push(`breeding.numBreeders (${config.breeding.numBreeders}) cannot exceed populationSize (${config.populationSize})`);
+  }
+  const { parentStrategy, survivorStrategy, objectives } = config.selection;
+  const usesNsga2 = [parentStrategy, survivorStrategy].some(name => name.startsWith('nsga2'));
+  if (usesNsga2 && objectives.length === 0) {
+    issues.push('selection.objectives must list at least one objective when an nsga2 strategy is used');
+  }
+  const objectiveNames = objectives.map(objectiveName);
+  if (new Set(objectiveNames).size < objectiveNames.length) {
+    issues.push('selection.objectives lists the same objective more than once');
+  }
+  if (config.tournament.phrases.some(phrase => phrase.trim() === '')) {
+    issues.push('tournament.phrases must not contain an empty phrase; every reply would contain it');
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+
+  if (config.breeding.maxParentAttempts < config.breeding.numBreeders) {
+    warnings.push(
+      `breeding.maxParentAttempts (${config.breeding.maxParentAttempts}) is below breeding.numBreeders ` +
+      `(${config.breeding.numBreeders}); at most ${config.breeding.maxParentAttempts} parents will breed per generation`
+    );
+  }
+  if (config.breeding.maxChildrenPerParent !== defaults.breeding.maxChildrenPerParent) {
+    warnings.push('breeding.maxChildrenPerParent is not used yet; each parent still produces up to 2 children');
+  }
+  if (config.cache.policy === 'top-up' && config.cache.maxSamples < config.sampling.samplesPerPrompt) {
+    warnings.push(
+      `cache.maxSamples (${config.cache.maxSamples}) is below sampling.samplesPerPrompt ` +
+      `(${config.sampling.samplesPerPrompt}); prompts will never be topped up past ${config.sampling.samplesPerPrompt} samples`
+    );
+  }
+  if (config.conversation.mode === 'scripted' && !config.initialPrompts.some(p => p.includes(config.conversation.turnSeparator))) {
+    warnings.push(
+      `conversation.mode is scripted but no initial prompt contains conversation.turnSeparator ` +
+      `(${JSON.stringify(config.conversation.turnSeparator)}); every conversation will start as a single turn`
+    );
+  }
+  if (config.retry.baseDelayMs > config.retry.maxDelayMs) {
+    warnings.push(
+      `retry.baseDelayMs (${config.retry.baseDelayMs}) is above retry.maxDelayMs (${config.retry.maxDelayMs}); ` +
+      `every backoff will be ${config.retry.maxDelayMs}ms`
+    );
+  }
+  if (config.mode === 'tournament' && (config.conversation.mode !== 'single' || config.sampling.samplesPerPrompt > 1)) {
+    warnings.push('conversation and sampling only apply in moderation mode; every tournament match is one attack and one reply');
+  }
+  const seedLists: [string, string[]][] = config.mode === 'tournament'
+    ? [['tournament.attackerPrompts', config.tournament.attackerPrompts], ['tournament.defenderPrompts', config.tournament.defenderPrompts]]
+    : [['initialPrompts', config.initialPrompts]];
+  seedLists.forEach(([name, seeds]) => {
+    const distinctPrompts = new Set(seeds).size;
+    if (distinctPrompts < config.populationSize) {
+      warnings.push(
+        `${name} has ${distinctPrompts} distinct entries for a population of ${config.populationSize}; ` +
+        'the first generation will be smaller and fill up as children are bred'
+      );
+    }
+  });
+
+  return { config, warnings };
+}
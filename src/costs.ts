@@ -0,0 +1,35 @@
+import { ModelPrice, TokenUsage } from './types.ts';
+
+export const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+// Helper to add up token usage; missing usage counts as none
+export function addUsage(...usages: (TokenUsage | undefined)[]): TokenUsage {
+  return usages.reduce<TokenUsage>((total, usage) => ({
+    inputTokens: total.inputTokens + (usage?.inputTokens ?? 0),
+    outputTokens: total.outputTokens + (usage?.outputTokens ?? 0),
+  }), NO_USAGE);
+}
+
+// Models already warned about, so a missing price is reported once per process
+const unpricedModels = new Set<string>();
+
+// USD cost of some tokens of a model. Models missing from the price table cost nothing, with a warning.
+export function usageCost(model: string, usage: TokenUsage | undefined, prices: Record<string, ModelPrice>): number {
+  if (!usage || (usage.inputTokens === 0 && usage.outputTokens === 0)) {
+    return 0;
+  }
+  const price = prices[model];
+  if (!price) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      console.warn(`⚠️ No price for model ${model} in cost.prices; its tokens are counted at no cost`);
+    }
+    return 0;
+  }
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1000000;
+}
+
+// Helper to format a USD amount for logs, with more digits for small amounts
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
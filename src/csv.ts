@@ -0,0 +1,29 @@
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import Papa from 'https://esm.sh/papaparse@5.4.1';
+
+export type CsvRow = Record<string, unknown>;
+
+// Columns that must stay strings: hex IDs like "1e10", and texts like "42" or "true", would otherwise parse as numbers or booleans
+const STRING_COLUMNS = /(^id$|_ids?$|prompt|output|error|response|content|^attack$|^opponent_)/;
+
+// Helper to read a CSV written by a run; missing files read as empty.
+// Papa.unparse ends the header with \r\n while appended rows are joined with \n,
+// so line endings are normalized before parsing.
+export async function readCSV(path: string): Promise<CsvRow[]> {
+  if (!(await exists(path))) {
+    return [];
+  }
+  const content = (await Deno.readTextFile(path)).replace(/\r\n/g, '\n');
+  const results = Papa.parse(content, { header: true, dynamicTyping: (field: string | number) => !STRING_COLUMNS.test(String(field)), skipEmptyLines: true });
+  return results.data as CsvRow[];
+}
+
+// Helper to name a category's column in moderation_results.csv
+export function categoryColumn(category: string): string {
+  return `score_${category.replace('/', '_')}`;
+}
+
+// Helper to name an objective's column the way moderation_results.csv names category columns
+export function objectiveColumn(name: string): string {
+  return `objective_${name.replace('/', '_')}`;
+}
@@ -0,0 +1,108 @@
+import { DiversityConfig, DiversityMetrics, Prompt } from './types.ts';
+
+// Helper to collect the character n-grams of a text, ignoring case and runs of whitespace
+function characterNgrams(text: string, size: number): Set<string> {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const grams = new Set<string>();
+  if (normalized.length <= size) {
+    grams.add(normalized);
+    return grams;
+  }
+  for (let i = 0; i + size <= normalized.length; i++) {
+    grams.add(normalized.slice(i, i + size));
+  }
+  return grams;
+}
+
+// Jaccard similarity of the texts' character n-gram sets
+function ngramJaccardMatrix(texts: string[], size: number): number[][] {
+  const grams = texts.map(text => characterNgrams(text, size));
+  return grams.map(a => grams.map((b) => {
+    if (a === b) return 1;
+    let shared = 0;
+    a.forEach(gram => b.has(gram) && shared++);
+    const union = a.size + b.size - shared;
+    return union === 0 ? 1 : shared / union;
+  }));
+}
+
+// Cosine similarity of TF-IDF word vectors. Document frequencies come from the texts
+// being compared, so words every prompt uses count for little.
+function tfidfCosineMatrix(texts: string[]): number[][] {
+  const counts = texts.map((text) => {
+    const tf = new Map<string, number>();
+    (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).forEach(word => tf.set(word, (tf.get(word) ?? 0) + 1));
+    return tf;
+  });
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(tf => tf.forEach((_, word) => documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)));
+
+  // Smoothed IDF keeps shared words above zero so near-identical texts still compare as similar
+  const vectors = counts.map((tf) => {
+    const vector = new Map<string, number>();
+    tf.forEach((count, word) => {
+      vector.set(word, count * (Math.log((1 + texts.length) / (1 + documentFrequency.get(word)!)) + 1));
+    });
+    return vector;
+  });
+  const norms = vectors.map(v => Math.sqrt([...v.values()].reduce((sum, x) => sum + x * x, 0)));
+
+  return vectors.map((a, i) => vectors.map((b, j) => {
+    if (i === j) return 1;
+    if (norms[i] === 0 || norms[j] === 0) return norms[i] === norms[j] ? 1 : 0;
+    let dot = 0;
+    a.forEach((weight, word) => dot += weight * (b.get(word) ?? 0));
+    return Math.min(dot / (norms[i] * norms[j]), 1);
+  }));
+}
+
+// Pairwise similarity of the prompts' contents, 0..1, with 1 on the diagonal
+export function similarityMatrix(prompts: Prompt[], config: DiversityConfig): number[][] {
+  const texts = prompts.map(p => p.content);
+  switch (config.similarity) {
+    case 'ngram-jaccard':
+      return ngramJaccardMatrix(texts, config.ngramSize);
+    case 'tfidf-cosine':
+      return tfidfCosineMatrix(texts);
+    default:
+      throw new Error(`Unknown similarity measure: ${config.similarity}`);
+  }
+}
+
+// Group prompts into niches: taken in the given order, each prompt joins the first niche
+// whose leader it is at least nicheThreshold similar to, or leads a new one.
+// Returns the niche index of each prompt.
+export function assignNiches(similarity: number[][], order: number[], nicheThreshold: number): number[] {
+  const niches = new Array<number>(similarity.length).fill(-1);
+  const leaders: number[] = [];
+  order.forEach((i) => {
+    const niche = leaders.findIndex(leader => similarity[i][leader] >= nicheThreshold);
+    if (niche === -1) {
+      niches[i] = leaders.length;
+      leaders.push(i);
+    } else {
+      niches[i] = niche;
+    }
+  });
+  return niches;
+}
+
+// Summarize how spread out a population is
+export function measureDiversity(prompts: Prompt[], config: DiversityConfig): DiversityMetrics {
+  const similarity = similarityMatrix(prompts, config);
+  const distances: number[] = [];
+  for (let i = 0; i < prompts.length; i++) {
+    for (let j = i + 1; j < prompts.length; j++) {
+      distances.push(1 - similarity[i][j]);
+    }
+  }
+  const byScore = prompts.map((_, i) => i).sort((a, b) => prompts[b].score - prompts[a].score);
+  const niches = assignNiches(similarity, byScore, config.nicheThreshold);
+  return {
+    similarity: config.similarity,
+    populationSize: prompts.length,
+    meanDistance: distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0,
+    minDistance: distances.length > 0 ? Math.min(...distances) : 0,
+    niches: new Set(niches).size,
+  };
+}
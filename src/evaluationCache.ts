@@ -0,0 +1,125 @@
+import * as crypto from 'node:crypto';
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import { CacheConfig, CachePolicy, CategoryScores, ChatMessage, ConversationConfig, EvaluationSample, TargetConfig } from './types.ts';
+import { Scorer } from './scoring/scorer.ts';
+import { stableStringify } from './cassette.ts';
+import { evaluationFailed } from './scoring/fitness.ts';
+
+// One cached sample: the raw target output, its scores and whether the provider refused.
+// Fitness is recomputed on reuse, so changing the fitness definition does not invalidate the cache.
+// The cache file is JSONL: one entry per line, in the order samples were drawn.
+interface CacheEntry {
+  key: string;
+  output: string;
+  categoryScores: CategoryScores;
+  flagged: boolean;
+  status?: 'refused-by-provider'; // Missing for answered samples, and in caches from before refusals were kept
+  transcript?: ChatMessage[]; // Multi-turn modes only
+  scoredTurns?: number[];
+  cachedAt: string;
+}
+
+export type CachedSample = Pick<EvaluationSample, 'output' | 'categoryScores' | 'flagged' | 'status' | 'transcript' | 'scoredTurns'>;
+
+// Persistent store of evaluation samples shared across generations and runs
+export interface EvaluationCache {
+  policy: CachePolicy;
+  lookup(key: string): Promise<CachedSample[]>;
+  add(key: string, samples: EvaluationSample[]): Promise<void>;
+}
+
+// Helper to derive the cache key: everything that could change what the target says
+// or how its reply is scored. baseUrl only matters to the openai-compatible provider, and the
+// conversation settings only to multi-turn modes, so single-turn keys are unchanged by them.
+export function evaluationCacheKey(content: string, target: TargetConfig, scorer: Scorer, conversation: ConversationConfig): string {
+  const request = {
+    content,
+    provider: target.provider,
+    model: target.model,
+    baseUrl: target.provider === 'openai-compatible' ? target.baseUrl : undefined,
+    systemPrompt: target.systemPrompt,
+    temperature: target.temperature,
+    maxTokens: target.maxTokens,
+    scorer: scorer.name,
+    scorerVersion: scorer.version,
+    conversation: conversation.mode === 'single' ? undefined : {
+      mode: conversation.mode,
+      turnSeparator: conversation.mode === 'scripted' ? conversation.turnSeparator : undefined,
+      turns: conversation.mode === 'generated' ? conversation.turns : undefined,
+      scoring: conversation.scoring,
+    },
+  };
+  return crypto.createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+// Decide how many cached samples to reuse and how many to draw for one evaluation.
+// - off, refresh: draw samplesPerPrompt fresh samples
+// - reuse: take up to samplesPerPrompt cached samples and draw the rest
+// - top-up: take every cached sample up to maxSamples and add topUpSamples fresh ones,
+//   so prompts that keep surviving get ever sharper estimates
+export function planSamples(cached: number, samplesPerPrompt: number, config: CacheConfig): { reuse: number; draw: number } {
+  switch (config.policy) {
+    case 'off':
+    case 'refresh':
+      return { reuse: 0, draw: samplesPerPrompt };
+    case 'reuse': {
+      const reuse = Math.min(cached, samplesPerPrompt);
+      return { reuse, draw: samplesPerPrompt - reuse };
+    }
+    case 'top-up': {
+      const total = Math.max(samplesPerPrompt, Math.min(cached + config.topUpSamples, config.maxSamples));
+      const reuse = Math.min(cached, total);
+      return { reuse, draw: total - reuse };
+    }
+    default:
+      throw new Error(`Unknown cache policy: ${config.policy}`);
+  }
+}
+
+// Helper to load a cache file; a missing file is an empty cache
+async function loadCache(path: string): Promise<Map<string, CachedSample[]>> {
+  const entries = new Map<string, CachedSample[]>();
+  if (!(await exists(path))) {
+    return entries;
+  }
+
+  const content = await Deno.readTextFile(path);
+  content.split('\n').filter(line => line.trim()).forEach((line) => {
+    const { key, output, categoryScores, flagged, status, transcript, scoredTurns } = JSON.parse(line) as CacheEntry;
+    entries.set(key, entries.get(key) || []);
+    entries.get(key)!.push({ output, categoryScores, flagged, status: status ?? 'ok', transcript, scoredTurns });
+  });
+  return entries;
+}
+
+// Open the cache file from config. It is read on first use; with policy off nothing is read or written.
+export function openEvaluationCache(config: CacheConfig): EvaluationCache {
+  // Kept as a promise so concurrent first lookups share a single load
+  let entries: Promise<Map<string, CachedSample[]>> | undefined;
+  const load = () => entries = entries || loadCache(config.path);
+
+  return {
+    policy: config.policy,
+    async lookup(key) {
+      if (config.policy === 'off') {
+        return [];
+      }
+      return [...((await load()).get(key) ?? [])];
+    },
+    async add(key, samples) {
+      // Refusals are kept, so they are not paid for again and cached samples do not lean towards answers
+      const fresh = samples.filter(sample => !evaluationFailed(sample.status) && !sample.cached);
+      if (config.policy === 'off' || fresh.length === 0) {
+        return;
+      }
+      const loaded = await load();
+      const cachedAt = new Date().toISOString();
+      const lines = fresh.map(({ output, categoryScores, flagged, status, transcript, scoredTurns }) => {
+        loaded.set(key, [...(loaded.get(key) ?? []), { output, categoryScores, flagged, status, transcript, scoredTurns }]);
+        const refused = status === 'refused-by-provider' ? status : undefined;
+        return JSON.stringify({ key, output, categoryScores, flagged, status: refused, transcript, scoredTurns, cachedAt } satisfies CacheEntry);
+      });
+      await Deno.writeTextFile(config.path, `${lines.join('\n')}\n`, { append: true });
+    },
+  };
+}
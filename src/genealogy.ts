@@ -0,0 +1,177 @@
+import { EvaluationStatus, Lineage, PromptOperator } from './types.ts';
+import { CsvRow } from './csv.ts';
+import { RunRecords } from './storage/storage.ts';
+import { shortId } from './breeding/breeder.ts';
+import { evaluationFailed } from './scoring/fitness.ts';
+
+export interface GenealogyNode {
+  id: string;
+  content: string;
+  parentIds: string[];
+  birthGeneration: number | null; // null when the prompt's lineage was never recorded
+  operator: string;
+  bestScore: number | null; // null when the prompt was never evaluated successfully
+  childIds: string[];
+  inLatestPopulation: boolean;
+  descendants: number; // All prompts descended from this one
+  livingDescendants: number; // Members of the latest population descended from (or equal to) this one
+}
+
+export interface Genealogy {
+  latestGeneration: number;
+  nodes: GenealogyNode[];
+  edges: { parentId: string; childId: string; operator: string }[];
+}
+
+const OPERATOR_COLORS: Record<string, string> = {
+  seed: '#d9d9d9',
+  'llm-breed': '#c6dbef',
+  'llm-crossover': '#c7e9c0',
+  'shuffle-sentences': '#fdd0a2',
+  'splice-sentences': '#fdd0a2',
+  'insert-framing': '#fdd0a2',
+  'delete-segment': '#fdd0a2',
+  'synonym-swap': '#fdd0a2',
+  fallback: '#fdd0a2',
+};
+
+// Helper to read a lineage row back into a Lineage
+export function lineageFromRow(row: CsvRow): Lineage {
+  return {
+    parentIds: String(row.parent_ids ?? '').split(' ').filter(Boolean),
+    birthGeneration: Number(row.birth_generation),
+    operator: String(row.operator) as PromptOperator,
+  };
+}
+
+// Build the family tree of every prompt a run has recorded
+export function buildGenealogy(records: RunRecords): Genealogy {
+  const nodes = new Map<string, GenealogyNode>();
+  const nodeFor = (id: string, content = ''): GenealogyNode => {
+    if (!nodes.has(id)) {
+      nodes.set(id, {
+        id,
+        content,
+        parentIds: [],
+        birthGeneration: null,
+        operator: 'unknown',
+        bestScore: null,
+        childIds: [],
+        inLatestPopulation: false,
+        descendants: 0,
+        livingDescendants: 0,
+      });
+    }
+    const node = nodes.get(id)!;
+    node.content = node.content || content;
+    return node;
+  };
+
+  records.lineage.forEach((row) => {
+    const node = nodeFor(String(row.id), String(row.prompt ?? ''));
+    Object.assign(node, lineageFromRow(row));
+  });
+  [...records.population, ...records.moderation].forEach(row => nodeFor(String(row.id), String(row.prompt ?? '')));
+  // Failed evaluations have no score to count
+  records.moderation.filter(row => !evaluationFailed(row.status as EvaluationStatus | undefined)).forEach((row) => {
+    const node = nodeFor(String(row.id));
+    const score = Number(row.total_score);
+    if (node.bestScore === null || score > node.bestScore) {
+      node.bestScore = score;
+    }
+  });
+
+  const edges: Genealogy['edges'] = [];
+  [...nodes.values()].forEach((child) => {
+    child.parentIds.forEach((parentId) => {
+      nodeFor(parentId).childIds.push(child.id);
+      edges.push({ parentId, childId: child.id, operator: child.operator });
+    });
+  });
+
+  // Walk up from each prompt so every ancestor is counted once per descendant
+  const ancestorsOf = (id: string): Set<string> => {
+    const seen = new Set<string>();
+    const stack = [...(nodes.get(id)?.parentIds ?? [])];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (!seen.has(next)) {
+        seen.add(next);
+        stack.push(...(nodes.get(next)?.parentIds ?? []));
+      }
+    }
+    return seen;
+  };
+
+  const latestGeneration = Math.max(...records.population.map(r => Number(r.generation)), 0);
+  const living = new Set(records.population.filter(r => Number(r.generation) === latestGeneration).map(r => String(r.id)));
+
+  nodes.forEach((node) => {
+    const ancestors = ancestorsOf(node.id);
+    ancestors.forEach(id => nodes.get(id)!.descendants++);
+    if (living.has(node.id)) {
+      node.inLatestPopulation = true;
+      node.livingDescendants++;
+      ancestors.forEach(id => nodes.get(id)!.livingDescendants++);
+    }
+  });
+
+  return { latestGeneration, nodes: [...nodes.values()], edges };
+}
+
+// Helper to quote a string for DOT; lines are joined with DOT's own line break
+function dotString(...lines: string[]): string {
+  const escape = (line: string) => line.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s+/g, ' ');
+  return `"${lines.map(escape).join('\\n')}"`;
+}
+
+// Render the family tree as Graphviz DOT, one rank per birth generation.
+// Nodes are colored by operator; members of the latest population have a bold border.
+export function genealogyToDot(genealogy: Genealogy): string {
+  const lines = [
+    'digraph genealogy {',
+    '  rankdir=TB;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10];',
+  ];
+
+  genealogy.nodes.forEach((node) => {
+    const score = node.bestScore === null ? 'not evaluated' : `best ${node.bestScore.toFixed(4)}`;
+    const born = node.birthGeneration === null ? '' : `gen ${node.birthGeneration}, `;
+    const attributes = [
+      `label=${dotString(shortId(node.id), `${born}${node.operator}`, score)}`,
+      `tooltip=${dotString(node.content)}`,
+      `fillcolor=${dotString(OPERATOR_COLORS[node.operator] ?? '#ffffff')}`,
+    ];
+    if (node.inLatestPopulation) {
+      attributes.push('penwidth=2');
+    }
+    lines.push(`  ${dotString(node.id)} [${attributes.join(', ')}];`);
+  });
+
+  const byGeneration = new Map<number, string[]>();
+  genealogy.nodes.forEach((node) => {
+    if (node.birthGeneration !== null) {
+      byGeneration.set(node.birthGeneration, [...(byGeneration.get(node.birthGeneration) || []), node.id]);
+    }
+  });
+  [...byGeneration.entries()].sort(([a], [b]) => a - b).forEach(([, ids]) => {
+    lines.push(`  { rank=same; ${ids.map(id => dotString(id)).join('; ')}; }`);
+  });
+
+  genealogy.edges.forEach((edge) => {
+    lines.push(`  ${dotString(edge.parentId)} -> ${dotString(edge.childId)};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// Write genealogy.dot and genealogy.json into a directory; returns the paths written
+export async function writeGenealogy(genealogy: Genealogy, dir: string): Promise<string[]> {
+  await Deno.mkdir(dir, { recursive: true });
+  const dotPath = `${dir}/genealogy.dot`;
+  const jsonPath = `${dir}/genealogy.json`;
+  await Deno.writeTextFile(dotPath, genealogyToDot(genealogy));
+  await Deno.writeTextFile(jsonPath, JSON.stringify(genealogy, null, 2) + '\n');
+  return [dotPath, jsonPath];
+}
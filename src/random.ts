@@ -0,0 +1,52 @@
+// Seeded pseudo-random number generator (mulberry32). All local randomness in
+// a run goes through one Rng so a run can be reproduced from its seed.
+export interface Rng {
+  seed: number;
+  // Internal state, for checkpoints; pass back to createRng to continue the sequence
+  state(): number;
+  // Uniform float in [0, 1)
+  next(): number;
+  // Uniform integer in [0, maxExclusive)
+  nextInt(maxExclusive: number): number;
+}
+
+export function createRng(seed: number, savedState?: number): Rng {
+  let state = (savedState ?? seed) >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    state: () => state,
+    next,
+    nextInt: (maxExclusive: number) => Math.floor(next() * maxExclusive),
+  };
+}
+
+// Helper to pick a seed when none is given
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Helper to pick an index with probability proportional to its weight.
+// Falls back to a uniform pick when no weight is positive.
+export function weightedIndex(rng: Rng, weights: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  if (total <= 0) {
+    return rng.nextInt(weights.length);
+  }
+  let remaining = rng.next() * total;
+  for (let i = 0; i < weights.length; i++) {
+    remaining -= Math.max(weights[i], 0);
+    if (remaining < 0) {
+      return i;
+    }
+  }
+  return weights.length - 1;
+}
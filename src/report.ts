@@ -0,0 +1,327 @@
+import { EvaluationStatus, RunManifest } from './types.ts';
+import { CsvRow } from './csv.ts';
+import { RunRecords } from './storage/storage.ts';
+import { lineageFromRow } from './genealogy.ts';
+import { shortId } from './breeding/breeder.ts';
+import { formatCost } from './costs.ts';
+import { evaluationFailed } from './scoring/fitness.ts';
+
+// Helper to group rows by their generation column
+function groupByGeneration(rows: CsvRow[]): Map<number, CsvRow[]> {
+  const groups = new Map<number, CsvRow[]>();
+  rows.forEach((row) => {
+    const generation = Number(row.generation);
+    groups.set(generation, groups.get(generation) || []);
+    groups.get(generation)!.push(row);
+  });
+  return groups;
+}
+
+// Helper to show a recorded score with its standard deviation when it came from several samples
+function formatRecordedScore(row: CsvRow): string {
+  const score = Number(row.total_score).toFixed(4);
+  return Number(row.sample_count) > 1
+    ? `${score} ± ${Math.sqrt(Number(row.fitness_variance) || 0).toFixed(4)} over ${row.sample_count} samples`
+    : score;
+}
+
+// Helper to tell whether a recorded evaluation or sample failed; rows from before statuses never did
+function rowFailed(row: CsvRow): boolean {
+  return evaluationFailed(row.status as EvaluationStatus | undefined);
+}
+
+// Helper to describe why a recorded evaluation or sample failed
+function describeError(row: CsvRow): string {
+  return `${row.status} in ${row.error_operation} [${row.error_class}, ${row.error_retries} retries]: ${row.error}`;
+}
+
+// Print a per-generation summary and the best prompts of a run
+export function printReport(records: RunRecords, manifest?: RunManifest, topCount = 5): void {
+  if (manifest) {
+    console.log(`\n📋 Run ${manifest.runId}: ${manifest.status}`);
+    console.log(`Started: ${manifest.startedAt}${manifest.endedAt ? `, ended: ${manifest.endedAt}` : ''}`);
+    console.log(`Commit: ${manifest.gitCommit ?? 'unknown'}${manifest.gitDirty ? ' (uncommitted changes)' : ''}`);
+    console.log(`Target: ${manifest.models.target.provider} (${manifest.models.target.model}), scorer: ${manifest.models.scorer.name}, breeder: ${manifest.models.breeder}`);
+    if (manifest.error) {
+      console.log(`Error: ${manifest.error}`);
+    }
+  }
+
+  const { population } = records;
+  // Failed evaluations have no fitness; they are listed on their own below
+  const moderation = records.moderation.filter(row => !rowFailed(row));
+  const failedEvaluations = records.moderation.filter(rowFailed);
+
+  if (records.moderation.length === 0 && population.length === 0) {
+    console.log('No run data found.');
+    return;
+  }
+
+  if (records.tournament.length > 0) {
+    printTournamentSummary(records.tournament, records.diversity, topCount);
+    printRunTotals(records, manifest);
+    return;
+  }
+
+  const diversityByGeneration = new Map(records.diversity.map(row => [Number(row.generation), row]));
+  const costByGeneration = new Map(records.costs.map(row => [Number(row.generation), row]));
+
+  console.log('\n📈 Generations:');
+  const failedByGeneration = groupByGeneration(failedEvaluations);
+  console.log('gen | evaluated | failed | best     | mean     | mean sd  | flagged | diversity | niches | cost');
+  for (const [generation, rows] of [...groupByGeneration(moderation)].sort(([a], [b]) => a - b)) {
+    const failedCount = failedByGeneration.get(generation)?.length ?? 0;
+    const scores = rows.map(r => Number(r.total_score) || 0);
+    const best = Math.max(...scores);
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const flagged = rows.filter(r => r.flagged === true || r.flagged === 'true').length;
+    const diversity = diversityByGeneration.get(generation);
+    // Evaluation plus breeding; '-' for runs from before cost accounting
+    const cost = costByGeneration.get(generation);
+    const generationCost = cost ? formatCost(Number(cost.evaluation_cost) + Number(cost.breeding_cost)) : '-';
+    // Spread between samples of the same prompt; '-' for runs from before repeated sampling
+    const sampled = rows.filter(r => r.fitness_variance !== undefined && r.fitness_variance !== null && r.fitness_variance !== '');
+    const meanSd = sampled.length > 0
+      ? (sampled.reduce((sum, r) => sum + Math.sqrt(Number(r.fitness_variance) || 0), 0) / sampled.length).toFixed(4)
+      : '-';
+    console.log(
+      `${String(generation).padStart(3)} | ${String(rows.length).padStart(9)} | ${String(failedCount).padStart(6)} | ${best.toFixed(4).padStart(8)} | ${mean.toFixed(4).padStart(8)} | ${meanSd.padStart(8)} | ` +
+      `${String(flagged).padStart(7)} | ${diversity ? Number(diversity.mean_distance).toFixed(4).padStart(9) : '        -'} | ${String(diversity?.niches ?? '-').padStart(6)} | ${generationCost}`
+    );
+  }
+
+  // Best score ever seen per prompt
+  const bestById = new Map<string, CsvRow>();
+  moderation.forEach((row) => {
+    const current = bestById.get(String(row.id));
+    if (!current || Number(row.total_score) > Number(current.total_score)) {
+      bestById.set(String(row.id), row);
+    }
+  });
+
+  console.log(`\n🏆 Top ${topCount} prompts:`);
+  [...bestById.values()]
+    .sort((a, b) => Number(b.total_score) - Number(a.total_score))
+    .slice(0, topCount)
+    .forEach((row, i) => {
+      console.log(`${i + 1}. ID ${shortId(String(row.id))}: Score ${formatRecordedScore(row)} (generation ${row.generation}, flagged: ${row.flagged})`);
+      console.log(`   Prompt: "${row.prompt}"`);
+    });
+
+  const latestGeneration = Math.max(...population.map(r => Number(r.generation)), 0);
+  const latestFront = records.paretoFront.filter(r => Number(r.generation) === latestGeneration);
+  if (latestFront.length > 0) {
+    console.log(`\n📐 Pareto front of generation ${latestGeneration}:`);
+    latestFront.forEach((row) => {
+      const values = Object.entries(row)
+        .filter(([column]) => column.startsWith('objective_'))
+        .map(([column, value]) => `${column.slice('objective_'.length)} ${Number(value).toFixed(4)}`);
+      console.log(`- ${shortId(String(row.id))}: ${values.join(', ')}`);
+    });
+  }
+
+  if (failedEvaluations.length > 0) {
+    console.log(`\n❌ Failed evaluations (${failedEvaluations.length}):`);
+    failedEvaluations.forEach((row) => {
+      console.log(`- Generation ${row.generation}, ${shortId(String(row.id))}: ${describeError(row)}`);
+    });
+  }
+
+  printRunTotals(records, manifest);
+}
+
+// Helper to print the latest generation, the cost and the breeding failures of a run
+function printRunTotals(records: RunRecords, manifest?: RunManifest): void {
+  const latestGeneration = Math.max(...records.population.map(r => Number(r.generation)), 0);
+  console.log(`\nLatest generation: ${latestGeneration}`);
+  const runCost = manifest?.costUsd ?? (records.costs.length > 0 ? Number(records.costs[records.costs.length - 1].run_cost) : undefined);
+  if (runCost !== undefined) {
+    const budget = manifest?.config.cost?.budgetUsd;
+    console.log(`Cost: ${formatCost(runCost)}${budget !== undefined ? ` of a ${formatCost(budget)} budget` : ''}`);
+  }
+  console.log(`Breeding failures: ${records.breedingFailures.length}${describeFailures(records.breedingFailures)}`);
+}
+
+// Helper to print a tournament run: each generation's win rates per population, and the latest best creatures
+function printTournamentSummary(rows: CsvRow[], diversity: CsvRow[], topCount: number): void {
+  const byRole = (role: string) => rows.filter(row => row.role === role && !rowFailed(row));
+  // Best and mean score of some rows, padded to the table's columns
+  const stats = (roleRows: CsvRow[]) => {
+    const scores = roleRows.map(r => Number(r.score) || 0);
+    const best = scores.length > 0 ? Math.max(...scores).toFixed(4) : '-';
+    const mean = scores.length > 0 ? (scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(4) : '-';
+    return `${best.padStart(13)} | ${mean.padStart(6)}`;
+  };
+
+  console.log('\n⚔️ Tournament generations (attackers: share of matches won, defenders: share held):');
+  // Mean distance within a population at the end of a generation; '-' for runs from before it was recorded
+  const meanDistance = (generation: number, role: string) => {
+    const row = diversity.find(r => Number(r.generation) === generation && r.role === role);
+    return (row ? Number(row.mean_distance).toFixed(4) : '-').padStart(13);
+  };
+
+  console.log('gen | matches | attacker best | mean   | defender best | mean   | failed | attacker div. | defender div.');
+  for (const [generation, generationRows] of [...groupByGeneration(rows)].sort(([a], [b]) => a - b)) {
+    const attackers = generationRows.filter(r => r.role === 'attacker' && !rowFailed(r));
+    const defenders = generationRows.filter(r => r.role === 'defender' && !rowFailed(r));
+    const matches = attackers.reduce((sum, r) => sum + (Number(r.matches) || 0), 0);
+    const failed = generationRows.filter(rowFailed).length;
+    console.log(
+      `${String(generation).padStart(3)} | ${String(matches).padStart(7)} | ${stats(attackers)} | ${stats(defenders)} | ${String(failed).padStart(6)} | ` +
+      `${meanDistance(generation, 'attacker')} | ${meanDistance(generation, 'defender')}`
+    );
+  }
+
+  const latestGeneration = Math.max(...rows.map(r => Number(r.generation)));
+  (['attacker', 'defender'] as const).forEach((role) => {
+    console.log(`\n🏆 Top ${topCount} ${role}s of generation ${latestGeneration}:`);
+    byRole(role)
+      .filter(r => Number(r.generation) === latestGeneration)
+      .sort((a, b) => Number(b.score) - Number(a.score))
+      .slice(0, topCount)
+      .forEach((row, i) => {
+        console.log(`${i + 1}. ID ${shortId(String(row.id))}: Score ${Number(row.score).toFixed(4)} (${row.wins}/${row.matches} ${role === 'attacker' ? 'won' : 'held'})`);
+        console.log(`   Prompt: "${row.prompt}"`);
+      });
+  });
+}
+
+// Helper to break breeding failures down by error class, e.g. " (rate-limit 2, no child 1)".
+// Failures without an error class are attempts that returned no usable child.
+function describeFailures(failures: CsvRow[]): string {
+  if (failures.length === 0) {
+    return '';
+  }
+  const counts = new Map<string, number>();
+  failures.forEach((row) => {
+    const errorClass = row.error_class ? String(row.error_class) : 'no child';
+    counts.set(errorClass, (counts.get(errorClass) ?? 0) + 1);
+  });
+  return ` (${[...counts].map(([errorClass, count]) => `${errorClass} ${count}`).join(', ')})`;
+}
+
+// Helper to expand a short alias into the full prompt ID it abbreviates.
+// Returns the input unchanged when nothing matches.
+function resolvePromptId(records: RunRecords, alias: string): string {
+  const ids = new Set<string>();
+  [...records.lineage, ...records.population, ...records.moderation].forEach(row => ids.add(String(row.id)));
+  records.breeding.forEach((row) => {
+    ids.add(String(row.parent_id));
+    ids.add(String(row.child_id));
+  });
+  if (ids.has(alias)) {
+    return alias;
+  }
+  const candidates = [...ids].filter(id => id.startsWith(alias));
+  if (candidates.length > 1) {
+    throw new Error(`Prompt ID ${alias} is ambiguous: ${candidates.map(shortId).join(', ')}`);
+  }
+  return candidates[0] ?? alias;
+}
+
+// Print everything recorded about a single prompt, given its ID or a prefix of it
+export function inspectPrompt(records: RunRecords, alias: string): boolean {
+  const id = resolvePromptId(records, alias);
+  const matches = (row: CsvRow) => String(row.id) === id;
+  const population = records.population.filter(matches);
+  const moderation = records.moderation.filter(matches);
+  const outputs = records.outputs.filter(matches);
+  const breeding = records.breeding;
+  const failures = records.breedingFailures.filter(r => String(r.parent_id) === id);
+
+  const asChild = breeding.filter(r => String(r.child_id) === id);
+  const asParent = breeding.filter(r => String(r.parent_id) === id);
+
+  if (population.length + moderation.length + asChild.length + asParent.length === 0) {
+    console.log(`No records found for prompt ${id}.`);
+    return false;
+  }
+
+  const prompt = population[0]?.prompt ?? moderation[0]?.prompt ?? asChild[0]?.child_prompt ?? asParent[0]?.parent_prompt;
+  console.log(`\n🔎 Prompt ${shortId(id)} (${id})`);
+  console.log(`"${prompt}"`);
+
+  const origin = records.lineage.find(matches);
+  if (origin) {
+    const { parentIds, birthGeneration, operator } = lineageFromRow(origin);
+    const parents = parentIds.length > 0 ? ` from ${parentIds.map(shortId).join(', ')}` : '';
+    console.log(`Origin: ${operator} in generation ${birthGeneration}${parents}`);
+  }
+
+  console.log(`\n👥 In population at generations: ${population.map(r => r.generation).join(', ') || 'none'}`);
+
+  if (asChild.length > 0) {
+    console.log(`\n🧬 Bred from: ${asChild.map(r => `${shortId(String(r.parent_id))} (generation ${r.generation})`).join(', ')}`);
+  }
+  if (asParent.length > 0) {
+    console.log(`\n👶 Children: ${asParent.map(r => `${shortId(String(r.child_id))} (generation ${r.generation})`).join(', ')}`);
+  }
+  if (failures.length > 0) {
+    console.log(`\n⚠️ Breeding failures as parent: ${failures.length}${describeFailures(failures)}`);
+  }
+
+  // Tournament runs: the prompt's matches instead of evaluations
+  const tournament = records.tournament.filter(matches);
+  if (tournament.length > 0) {
+    console.log('\n⚔️ Tournament:');
+    tournament.forEach((row) => {
+      const attacker = row.role === 'attacker';
+      if (rowFailed(row)) {
+        console.log(`Generation ${row.generation} as ${row.role}: ❌ ${describeError(row)}`);
+        return;
+      }
+      const failed = Number(row.failed_matches) > 0 ? `, ${row.failed_matches} failed` : '';
+      const refused = row.status === 'refused-by-provider' ? ', refused by provider' : '';
+      console.log(`Generation ${row.generation} as ${row.role}: ${Number(row.score).toFixed(4)} (${row.wins}/${row.matches} ${attacker ? 'won' : 'held'}${failed}${refused})`);
+      if (attacker) {
+        console.log(`  Attack: "${row.attack}"`);
+      }
+      for (let n = 1; row[`opponent_${n}`]; n++) {
+        const attackerWon = row[`attacker_won_${n}`] === true || row[`attacker_won_${n}`] === 'true';
+        console.log(`  vs ${shortId(String(row[`opponent_${n}`]))}: ${attackerWon === attacker ? 'won' : 'lost'}, reply: "${row[`response_${n}`]}"`);
+      }
+    });
+    return true;
+  }
+
+  console.log('\n🔍 Evaluations:');
+  moderation.forEach((row) => {
+    const categories = Object.entries(row)
+      .filter(([key]) => key.startsWith('score_'))
+      .sort(([, a], [, b]) => Number(b) - Number(a))
+      .slice(0, 3)
+      .map(([key, value]) => `${key.slice('score_'.length)}=${Number(value).toFixed(4)}`)
+      .join(', ');
+    if (rowFailed(row)) {
+      console.log(`Generation ${row.generation}: ❌ ${describeError(row)}`);
+      return;
+    }
+    const refused = row.status === 'refused-by-provider' ? ', refused by provider' : '';
+    console.log(`Generation ${row.generation}: ${formatRecordedScore(row)} (flagged: ${row.flagged}${refused}) ${categories}`);
+    const samples = records.samples.filter(s => matches(s) && s.generation === row.generation);
+    if (samples.length > 1) {
+      console.log(`  Samples: ${samples.map(s => rowFailed(s)
+        ? String(s.status)
+        : `${Number(s.score).toFixed(4)}${s.flagged === true || s.flagged === 'true' ? ' (flagged)' : ''}`).join(', ')}`);
+    }
+    if (row.cost !== undefined && row.cost !== null && row.cost !== '') {
+      console.log(`  Cost: ${formatCost(Number(row.cost))} (${row.input_tokens} input, ${row.output_tokens} output tokens)`);
+    }
+    const output = outputs.find(o => o.generation === row.generation);
+    if (output) {
+      console.log(`  Output: "${output.output}"`);
+    }
+    // Multi-turn evaluations: the first sample's conversation, with its scored replies marked
+    const turns = records.transcripts.filter(t => matches(t) && t.generation === row.generation);
+    const firstSample = turns[0]?.sample;
+    if (firstSample !== undefined) {
+      console.log(`  Transcript of sample ${firstSample}:`);
+      turns.filter(t => t.sample === firstSample).forEach((t) => {
+        const scored = t.scored === true || t.scored === 'true' ? ' (scored)' : '';
+        console.log(`    ${t.turn}. ${t.role}${scored}: "${t.content}"`);
+      });
+    }
+  });
+
+  return true;
+}
@@ -0,0 +1,88 @@
+import { CategoryScores, EvaluationStatus, FitnessConfig, SamplingConfig } from './types.ts';
+import { categoryColumn, CsvRow } from './csv.ts';
+import { RunRecords } from './storage/storage.ts';
+import { EMPTY_CATEGORY_SCORES } from './scoring/scorer.ts';
+import { aggregateSamples, computeFitness, evaluationFailed } from './scoring/fitness.ts';
+import { shortId } from './breeding/breeder.ts';
+
+// Helper to read the raw category scores back out of a moderation row. Column names
+// flatten "/" to "_", so known category names are matched first to restore it.
+function categoryScoresFromRow(row: CsvRow, knownCategories: string[]): CategoryScores {
+  const byColumn = new Map(knownCategories.map(category => [categoryColumn(category), category]));
+  const scores: Record<string, number> = {};
+  Object.entries(row)
+    .filter(([column]) => column.startsWith('score_'))
+    .forEach(([column, value]) => {
+      scores[byColumn.get(column) ?? column.slice('score_'.length)] = Number(value) || 0;
+    });
+  return scores as CategoryScores;
+}
+
+// Helper to read a stored boolean, which CSV parsing may leave as a string
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+// Recompute the fitness of every recorded evaluation under a fitness definition,
+// from the stored category scores, flags, prompts and outputs. Evaluations with stored
+// samples are rescored per sample and recombined. Failed evaluations and samples have
+// nothing to rescore and are skipped. Makes no API calls.
+export function rescoreRecords(records: RunRecords, fitness: FitnessConfig, sampling: SamplingConfig): CsvRow[] {
+  const knownCategories = [...Object.keys(EMPTY_CATEGORY_SCORES), ...Object.keys(fitness.categoryWeights)];
+  const key = (row: CsvRow) => `${row.generation}:${row.id}`;
+  const outputs = new Map(records.outputs.map(row => [key(row), String(row.output ?? '')]));
+  const samplesByEvaluation = new Map<string, CsvRow[]>();
+  const failed = (row: CsvRow) => evaluationFailed(row.status as EvaluationStatus | undefined);
+  records.samples.filter(row => !failed(row)).forEach((row) => {
+    samplesByEvaluation.set(key(row), samplesByEvaluation.get(key(row)) || []);
+    samplesByEvaluation.get(key(row))!.push(row);
+  });
+
+  return records.moderation.filter(row => !failed(row)).map((row) => {
+    const prompt = String(row.prompt ?? '');
+    const samples = samplesByEvaluation.get(key(row)) ?? [{ ...row, output: outputs.get(key(row)) ?? '' }];
+    const { score, variance } = aggregateSamples(samples.map(sample => computeFitness({
+      categoryScores: categoryScoresFromRow(sample, knownCategories),
+      flagged: isTrue(sample.flagged),
+      prompt,
+      output: String(sample.output ?? ''),
+    }, fitness)), sampling);
+    return {
+      generation: row.generation,
+      id: row.id,
+      prompt: row.prompt,
+      flagged: isTrue(row.flagged),
+      sample_count: samples.length,
+      recorded_score: row.total_score,
+      score,
+      fitness_variance: variance,
+    };
+  });
+}
+
+// Print the best prompts under the new fitness next to their recorded scores
+export function printRescore(rows: CsvRow[], topCount = 5): void {
+  if (rows.length === 0) {
+    console.log('No evaluations found.');
+    return;
+  }
+
+  // Best recomputed score per prompt
+  const bestById = new Map<string, CsvRow>();
+  rows.forEach((row) => {
+    const current = bestById.get(String(row.id));
+    if (!current || Number(row.score) > Number(current.score)) {
+      bestById.set(String(row.id), row);
+    }
+  });
+
+  console.log(`\n🧮 Top ${topCount} prompts under the new fitness:`);
+  [...bestById.values()]
+    .sort((a, b) => Number(b.score) - Number(a.score))
+    .slice(0, topCount)
+    .forEach((row, i) => {
+      const spread = Number(row.sample_count) > 1 ? ` ± ${Math.sqrt(Number(row.fitness_variance)).toFixed(4)}` : '';
+      console.log(`${i + 1}. ID ${shortId(String(row.id))}: Score ${Number(row.score).toFixed(4)}${spread} (recorded ${Number(row.recorded_score).toFixed(4)}, generation ${row.generation})`);
+      console.log(`   Prompt: "${row.prompt}"`);
+    });
+}
@@ -0,0 +1,86 @@
+import * as crypto from 'node:crypto';
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import { RunManifest } from './types.ts';
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Helper to generate a sortable, human-readable run ID, e.g. 20261018-094357-3fa2
+export function generateRunId(date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${crypto.randomBytes(2).toString('hex')}`;
+}
+
+// Helper to capture the code version a run was started from (the checkout holding this file)
+export async function getGitState(): Promise<{ commit: string | null; dirty: boolean }> {
+  try {
+    const cwd = new URL('.', import.meta.url);
+    const git = (...args: string[]) => new Deno.Command('git', { args, cwd, stdout: 'piped', stderr: 'null' }).output();
+    const head = await git('rev-parse', 'HEAD');
+    if (!head.success) {
+      return { commit: null, dirty: false };
+    }
+    const status = await git('status', '--porcelain');
+    return {
+      commit: new TextDecoder().decode(head.stdout).trim(),
+      dirty: new TextDecoder().decode(status.stdout).trim() !== '',
+    };
+  } catch {
+    // git not installed or not a repository
+    return { commit: null, dirty: false };
+  }
+}
+
+export function manifestPath(runDir: string): string {
+  return `${runDir}/${MANIFEST_FILE}`;
+}
+
+// Helper to write JSON atomically so an interrupted write never leaves a truncated file
+export async function writeJsonAtomic(path: string, data: unknown): Promise<void> {
+  const tempPath = `${path}.tmp`;
+  await Deno.writeTextFile(tempPath, `${JSON.stringify(data, null, 2)}\n`);
+  await Deno.rename(tempPath, path);
+}
+
+export async function writeManifest(runDir: string, manifest: RunManifest): Promise<void> {
+  await writeJsonAtomic(manifestPath(runDir), manifest);
+}
+
+export async function readManifest(runDir: string): Promise<RunManifest | undefined> {
+  const path = manifestPath(runDir);
+  if (!(await exists(path))) {
+    return undefined;
+  }
+  return JSON.parse(await Deno.readTextFile(path)) as RunManifest;
+}
+
+// Find a run directory from a run ID or path. Without one, pick the most recently started
+// run under outputDir. A directory in the old flat layout (CSV files directly in it) also counts.
+export async function resolveRunDir(outputDir: string, run?: string): Promise<string> {
+  if (run) {
+    for (const candidate of [run, `${outputDir}/${run}`]) {
+      if (await exists(candidate, { isDirectory: true })) {
+        return candidate;
+      }
+    }
+    throw new Error(`Run not found: ${run} (looked in . and ${outputDir})`);
+  }
+
+  let latest: { dir: string; startedAt: string } | undefined;
+  if (await exists(outputDir, { isDirectory: true })) {
+    for await (const entry of Deno.readDir(outputDir)) {
+      if (!entry.isDirectory) continue;
+      const dir = `${outputDir}/${entry.name}`;
+      const manifest = await readManifest(dir);
+      if (manifest && (!latest || manifest.startedAt > latest.startedAt)) {
+        latest = { dir, startedAt: manifest.startedAt };
+      }
+    }
+  }
+  if (latest) {
+    return latest.dir;
+  }
+  if (await exists(`${outputDir}/population.csv`)) {
+    return outputDir;
+  }
+  throw new Error(`No runs found in ${outputDir}. Use "run" to start one.`);
+}
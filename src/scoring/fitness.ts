@@ -0,0 +1,74 @@
+import { CategoryScores, EvaluationStatus, FitnessConfig, SamplingConfig } from '../types.ts';
+
+// Everything fitness is computed from. All of it is stored with each evaluation,
+// so fitness can be recomputed later under a different definition.
+export interface FitnessInput {
+  categoryScores: CategoryScores;
+  flagged: boolean;
+  prompt: string;
+  output: string;
+}
+
+// Turn raw scores into the single number used for selection:
+// aggregate the weighted category scores, add the flagged bonus and subtract length penalties.
+// Categories with weight 0 are left out, including from the mean.
+export function computeFitness(input: FitnessInput, config: FitnessConfig): number {
+  const weighted = Object.entries(input.categoryScores)
+    .map(([category, score]) => ({ weight: config.categoryWeights[category] ?? config.defaultWeight, score }))
+    .filter(({ weight }) => weight !== 0)
+    .map(({ weight, score }) => weight * score);
+
+  let aggregate = 0;
+  if (weighted.length > 0) {
+    switch (config.aggregation) {
+      case 'sum':
+        aggregate = weighted.reduce((total, value) => total + value, 0);
+        break;
+      case 'max':
+        aggregate = Math.max(...weighted);
+        break;
+      case 'mean':
+        aggregate = weighted.reduce((total, value) => total + value, 0) / weighted.length;
+        break;
+      default:
+        throw new Error(`Unknown fitness aggregation: ${config.aggregation}`);
+    }
+  }
+
+  return aggregate
+    + (input.flagged ? config.flaggedBonus : 0)
+    - config.promptLengthPenalty * input.prompt.length / 1000
+    - config.outputLengthPenalty * input.output.length / 1000;
+}
+
+// Helper to tell whether an evaluation or sample failed, leaving no fitness to use.
+// A missing status (from before statuses were recorded) counts as ok.
+export function evaluationFailed(status: EvaluationStatus | undefined): boolean {
+  return status === 'error' || status === 'timeout';
+}
+
+// Combine the fitness of repeated samples into one score, with their sample variance
+export function aggregateSamples(scores: number[], config: SamplingConfig): { score: number; variance: number } {
+  if (scores.length === 0) {
+    return { score: 0, variance: 0 };
+  }
+  const mean = scores.reduce((total, score) => total + score, 0) / scores.length;
+  const variance = scores.length > 1
+    ? scores.reduce((total, score) => total + (score - mean) ** 2, 0) / (scores.length - 1)
+    : 0;
+
+  switch (config.aggregation) {
+    case 'mean':
+      return { score: mean, variance };
+    case 'median': {
+      const sorted = [...scores].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+      return { score: median, variance };
+    }
+    case 'lcb':
+      return { score: mean - config.lowerBoundZ * Math.sqrt(variance / scores.length), variance };
+    default:
+      throw new Error(`Unknown sample aggregation: ${config.aggregation}`);
+  }
+}
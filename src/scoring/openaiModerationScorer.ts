@@ -0,0 +1,34 @@
+import OpenAI from 'https://esm.sh/openai@4.26.0';
+import { ScoreResult } from '../types.ts';
+import { Scorer } from './scorer.ts';
+import { withCassette } from '../cassette.ts';
+import { estimateTokens, withThrottle } from '../throttle.ts';
+
+// Scorer backed by the OpenAI moderation endpoint
+export function createOpenAIModerationScorer(model: string): Scorer {
+  const openai = new OpenAI({
+    apiKey: Deno.env.get('OPENAI_API_KEY') || '',
+    maxRetries: 0, // safeApiCall retries
+  });
+
+  return {
+    name: 'openai-moderation',
+    model,
+    version: model,
+    async score(output: string, signal?: AbortSignal): Promise<ScoreResult> {
+      const params = { model, input: output };
+      const moderation = await withCassette('openai.moderations.create', params, () => withThrottle(
+        'openai',
+        estimateTokens(output),
+        signal,
+        () => openai.moderations.create(params, { signal }).withResponse()
+      ));
+
+      const result = moderation.results[0];
+      return {
+        categoryScores: { ...result.category_scores },
+        flagged: result.flagged,
+      };
+    },
+  };
+}
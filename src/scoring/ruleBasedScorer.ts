@@ -0,0 +1,39 @@
+import * as crypto from 'node:crypto';
+import { CategoryScores, ScoreResult, ScoringRule } from '../types.ts';
+import { stableStringify } from '../cassette.ts';
+import { EMPTY_CATEGORY_SCORES, Scorer } from './scorer.ts';
+
+// Score a single rule against the output, from 0 (no match) to 1 (full match)
+function scoreRule(rule: ScoringRule, output: string): number {
+  const lowered = output.toLowerCase();
+  switch (rule.type) {
+    case 'regex':
+      return new RegExp(rule.pattern, rule.flags ?? 'i').test(output) ? 1 : 0;
+    case 'keywords': {
+      if (rule.keywords.length === 0) return 0;
+      const hits = rule.keywords.filter(keyword => lowered.includes(keyword.toLowerCase())).length;
+      return hits / rule.keywords.length;
+    }
+    case 'canary':
+      return lowered.includes(rule.text.toLowerCase()) ? 1 : 0;
+  }
+}
+
+// Offline scorer: regex, keyword and canary-string rules evaluated in-process.
+// Rules sharing a category keep the highest weighted score. Makes no network calls.
+export function createRuleBasedScorer(rules: ScoringRule[], flagThreshold: number): Scorer {
+  return {
+    name: 'rule-based',
+    version: crypto.createHash('sha256').update(stableStringify({ rules, flagThreshold })).digest('hex').slice(0, 16),
+    score(output: string): Promise<ScoreResult> {
+      const categoryScores: CategoryScores = { ...EMPTY_CATEGORY_SCORES };
+      for (const rule of rules) {
+        const score = scoreRule(rule, output) * (rule.weight ?? 1);
+        categoryScores[rule.category] = Math.max(categoryScores[rule.category] ?? 0, score);
+      }
+
+      const flagged = Object.values(categoryScores).some(score => score >= flagThreshold);
+      return Promise.resolve({ categoryScores, flagged });
+    },
+  };
+}
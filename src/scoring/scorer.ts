@@ -0,0 +1,38 @@
+import { CategoryScores, ScoreResult, ScorerName, ScoringConfig } from '../types.ts';
+import { createOpenAIModerationScorer } from './openaiModerationScorer.ts';
+import { createRuleBasedScorer } from './ruleBasedScorer.ts';
+
+// Turns a target model output into category scores and a flagged bit
+export interface Scorer {
+  name: ScorerName;
+  model?: string; // Set when scoring calls a model
+  version: string; // Changes whenever the same output could score differently; part of the evaluation cache key
+  score(output: string, signal?: AbortSignal): Promise<ScoreResult>; // signal cancels a scoring API call
+}
+
+// The OpenAI moderation categories, all zeroed
+export const EMPTY_CATEGORY_SCORES: CategoryScores = {
+  sexual: 0,
+  "sexual/minors": 0,
+  harassment: 0,
+  "harassment/threatening": 0,
+  hate: 0,
+  "hate/threatening": 0,
+  "self-harm": 0,
+  "self-harm/intent": 0,
+  "self-harm/instructions": 0,
+  violence: 0,
+  "violence/graphic": 0,
+};
+
+// Build the scorer selected in config
+export function createScorer(config: ScoringConfig): Scorer {
+  switch (config.scorer) {
+    case 'openai-moderation':
+      return createOpenAIModerationScorer(config.moderationModel);
+    case 'rule-based':
+      return createRuleBasedScorer(config.rules, config.ruleFlagThreshold);
+    default:
+      throw new Error(`Unknown scorer: ${config.scorer}`);
+  }
+}
@@ -0,0 +1,68 @@
+import { DiversityConfig, Prompt } from '../types.ts';
+import { assignNiches, similarityMatrix } from '../diversity.ts';
+import { SelectionStrategy } from './selectionStrategy.ts';
+
+// Fitness sharing: each prompt's score is divided by how crowded its neighbourhood is,
+// so a cluster of paraphrases competes as roughly one prompt. The strategy then selects
+// on the shared scores; the prompts it returns keep their real scores.
+function createFitnessSharing(strategy: SelectionStrategy, config: DiversityConfig): SelectionStrategy {
+  const { nicheThreshold, sharingAlpha } = config;
+  // Sharing falls from 1 for identical prompts to 0 at the niche threshold
+  const share = (similarity: number) => {
+    if (similarity < nicheThreshold) return 0;
+    return nicheThreshold >= 1 ? 1 : 1 - Math.pow((1 - similarity) / (1 - nicheThreshold), sharingAlpha);
+  };
+
+  return {
+    name: strategy.name,
+    description: `${strategy.description} with fitness sharing (${config.similarity} ≥ ${nicheThreshold})`,
+    select(population, count, rng) {
+      const similarity = similarityMatrix(population, config);
+      const shared = population.map((p, i) => {
+        const nicheCount = similarity[i].reduce((sum, s) => sum + share(s), 0);
+        return { ...p, score: p.score / Math.max(nicheCount, 1) };
+      });
+      return strategy.select(shared, count, rng).map(s => population[shared.indexOf(s)]);
+    },
+  };
+}
+
+// Crowding: walk the strategy's full ranking and take at most one prompt per niche,
+// then fill any remaining places from the skipped prompts in ranking order.
+function createCrowding(strategy: SelectionStrategy, config: DiversityConfig): SelectionStrategy {
+  return {
+    name: strategy.name,
+    description: `${strategy.description} with crowding (${config.similarity} ≥ ${config.nicheThreshold})`,
+    select(population, count, rng) {
+      const similarity = similarityMatrix(population, config);
+      const ranked = strategy.select(population, population.length, rng).map(p => population.indexOf(p));
+      const niches = assignNiches(similarity, ranked, config.nicheThreshold);
+      const seenNiches = new Set<number>();
+      const selected: Prompt[] = [];
+      const skipped: Prompt[] = [];
+      ranked.forEach((i) => {
+        if (seenNiches.has(niches[i])) {
+          skipped.push(population[i]);
+        } else {
+          seenNiches.add(niches[i]);
+          selected.push(population[i]);
+        }
+      });
+      return [...selected, ...skipped].slice(0, Math.max(count, 0));
+    },
+  };
+}
+
+// Wrap a selection strategy so that it favours prompts unlike the rest of the population
+export function withDiversityPreservation(strategy: SelectionStrategy, config: DiversityConfig): SelectionStrategy {
+  switch (config.preservation) {
+    case 'none':
+      return strategy;
+    case 'sharing':
+      return createFitnessSharing(strategy, config);
+    case 'crowding':
+      return createCrowding(strategy, config);
+    default:
+      throw new Error(`Unknown diversity preservation method: ${config.preservation}`);
+  }
+}
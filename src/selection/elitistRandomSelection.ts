@@ -0,0 +1,18 @@
+import { byScoreDescending, SelectionStrategy } from './selectionStrategy.ts';
+
+// Always keep the `eliteCount` best prompts, then fill the rest uniformly at random
+export function createElitistRandomSelection(eliteCount: number): SelectionStrategy {
+  return {
+    name: 'elitist-random',
+    description: `elitist-random (${eliteCount} elite)`,
+    select(population, count, rng) {
+      const sorted = byScoreDescending(population);
+      const selected = sorted.slice(0, Math.min(eliteCount, Math.max(count, 0)));
+      const remaining = sorted.slice(selected.length);
+      while (selected.length < count && remaining.length > 0) {
+        selected.push(...remaining.splice(rng.nextInt(remaining.length), 1));
+      }
+      return selected;
+    },
+  };
+}
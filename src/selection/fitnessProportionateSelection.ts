@@ -0,0 +1,21 @@
+import { Prompt } from '../types.ts';
+import { weightedIndex } from '../random.ts';
+import { SelectionStrategy } from './selectionStrategy.ts';
+
+// Roulette wheel: each pick is proportional to score among the prompts not yet picked.
+// Prompts scoring 0 are only picked once every positive score is gone.
+export function createFitnessProportionateSelection(): SelectionStrategy {
+  return {
+    name: 'fitness-proportionate',
+    description: 'fitness-proportionate',
+    select(population, count, rng) {
+      const remaining = [...population];
+      const selected: Prompt[] = [];
+      while (selected.length < count && remaining.length > 0) {
+        const index = weightedIndex(rng, remaining.map(p => p.score));
+        selected.push(...remaining.splice(index, 1));
+      }
+      return selected;
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { Objective, ParetoFrontEntry, Prompt } from '../types.ts';
+import { describeObjectives, objectiveName, objectiveValue, objectiveVectors } from '../objectives.ts';
+import { SelectionStrategy } from './selectionStrategy.ts';
+
+// Where a prompt stands in NSGA-II: its Pareto front (0 is non-dominated) and
+// its crowding distance within that front (larger means more isolated)
+interface ParetoRank {
+  front: number;
+  crowdingDistance: number;
+}
+
+// Helper to tell whether vector a is at least as good as b everywhere and better somewhere
+function dominates(a: number[], b: number[]): boolean {
+  let better = false;
+  for (let k = 0; k < a.length; k++) {
+    if (a[k] < b[k]) return false;
+    if (a[k] > b[k]) better = true;
+  }
+  return better;
+}
+
+// Fast non-dominated sort: indices grouped into successive Pareto fronts
+export function nonDominatedSort(vectors: number[][]): number[][] {
+  const dominatedBy = vectors.map(() => [] as number[]);
+  const dominationCount = vectors.map(() => 0);
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = 0; j < vectors.length; j++) {
+      if (i !== j && dominates(vectors[i], vectors[j])) {
+        dominatedBy[i].push(j);
+      } else if (i !== j && dominates(vectors[j], vectors[i])) {
+        dominationCount[i]++;
+      }
+    }
+  }
+
+  const fronts: number[][] = [];
+  let current = vectors.map((_, i) => i).filter(i => dominationCount[i] === 0);
+  while (current.length > 0) {
+    fronts.push(current);
+    const next: number[] = [];
+    current.forEach(i => dominatedBy[i].forEach((j) => {
+      if (--dominationCount[j] === 0) next.push(j);
+    }));
+    current = next.sort((a, b) => a - b);
+  }
+  return fronts;
+}
+
+// Crowding distance of each member of one front. Boundary prompts on any objective are infinitely far.
+function crowdingDistances(vectors: number[][], front: number[]): Map<number, number> {
+  const distances = new Map(front.map(i => [i, 0]));
+  const objectiveCount = vectors[front[0]]?.length ?? 0;
+  for (let k = 0; k < objectiveCount; k++) {
+    const sorted = [...front].sort((a, b) => vectors[a][k] - vectors[b][k]);
+    const range = vectors[sorted[sorted.length - 1]][k] - vectors[sorted[0]][k];
+    distances.set(sorted[0], Infinity);
+    distances.set(sorted[sorted.length - 1], Infinity);
+    if (range === 0) continue;
+    for (let s = 1; s < sorted.length - 1; s++) {
+      const gap = (vectors[sorted[s + 1]][k] - vectors[sorted[s - 1]][k]) / range;
+      distances.set(sorted[s], distances.get(sorted[s])! + gap);
+    }
+  }
+  return distances;
+}
+
+// Rank every prompt by Pareto front, then by crowding distance
+function paretoRanks(population: Prompt[], objectives: Objective[]): ParetoRank[] {
+  const vectors = objectiveVectors(population, objectives);
+  const ranks: ParetoRank[] = population.map(() => ({ front: 0, crowdingDistance: 0 }));
+  nonDominatedSort(vectors).forEach((front, f) => {
+    crowdingDistances(vectors, front).forEach((crowdingDistance, i) => {
+      ranks[i] = { front: f, crowdingDistance };
+    });
+  });
+  return ranks;
+}
+
+// NSGA-II's crowded comparison: lower front wins, then the larger crowding distance
+function crowdedCompare(a: ParetoRank, b: ParetoRank): number {
+  if (a.front !== b.front) return a.front - b.front;
+  if (a.crowdingDistance === b.crowdingDistance) return 0;
+  return a.crowdingDistance > b.crowdingDistance ? -1 : 1;
+}
+
+// The non-dominated prompts of a population, with their objective values
+export function paretoFront(population: Prompt[], objectives: Objective[]): ParetoFrontEntry[] {
+  const ranks = paretoRanks(population, objectives);
+  return population
+    .map((prompt, i) => ({ prompt, rank: ranks[i] }))
+    .filter(({ rank }) => rank.front === 0)
+    .sort((a, b) => crowdedCompare(a.rank, b.rank))
+    .map(({ prompt, rank }) => ({
+      prompt,
+      objectives: Object.fromEntries(objectives.map(o => [objectiveName(o), objectiveValue(prompt, o)])),
+      crowdingDistance: rank.crowdingDistance,
+    }));
+}
+
+// NSGA-II environmental selection: fill with whole fronts in order, and break into the last
+// front by crowding distance. Deterministic, so best suited to survivors.
+export function createNsga2Selection(objectives: Objective[]): SelectionStrategy {
+  return {
+    name: 'nsga2',
+    description: `nsga2 (${describeObjectives(objectives)})`,
+    select(population, count) {
+      const ranks = paretoRanks(population, objectives);
+      return population
+        .map((_, i) => i)
+        .sort((a, b) => crowdedCompare(ranks[a], ranks[b]) || a - b)
+        .slice(0, Math.max(count, 0))
+        .map(i => population[i]);
+    },
+  };
+}
+
+// NSGA-II mating selection: tournaments decided by the crowded comparison instead of score
+export function createNsga2TournamentSelection(objectives: Objective[], size: number): SelectionStrategy {
+  return {
+    name: 'nsga2-tournament',
+    description: `nsga2-tournament (size ${size}; ${describeObjectives(objectives)})`,
+    select(population, count, rng) {
+      const ranks = paretoRanks(population, objectives);
+      const remaining = population.map((_, i) => i);
+      const selected: Prompt[] = [];
+      while (selected.length < count && remaining.length > 0) {
+        let winner = rng.nextInt(remaining.length);
+        for (let i = 1; i < Math.min(size, remaining.length); i++) {
+          const contender = rng.nextInt(remaining.length);
+          if (crowdedCompare(ranks[remaining[contender]], ranks[remaining[winner]]) < 0) {
+            winner = contender;
+          }
+        }
+        selected.push(population[remaining.splice(winner, 1)[0]]);
+      }
+      return selected;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { Prompt } from '../types.ts';
+import { weightedIndex } from '../random.ts';
+import { byScoreDescending, SelectionStrategy } from './selectionStrategy.ts';
+
+// Roulette wheel over rank instead of raw score: the worst prompt has weight 1,
+// the best has weight n. Keeps pressure steady when scores are bunched together or far apart.
+export function createRankSelection(): SelectionStrategy {
+  return {
+    name: 'rank',
+    description: 'rank',
+    select(population, count, rng) {
+      const remaining = byScoreDescending(population);
+      const weights = remaining.map((_, i) => remaining.length - i);
+      const selected: Prompt[] = [];
+      while (selected.length < count && remaining.length > 0) {
+        const index = weightedIndex(rng, weights);
+        selected.push(...remaining.splice(index, 1));
+        weights.splice(index, 1);
+      }
+      return selected;
+    },
+  };
+}
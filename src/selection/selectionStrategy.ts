@@ -0,0 +1,44 @@
+import { Prompt, SelectionConfig, SelectionStrategyName } from '../types.ts';
+import { Rng } from '../random.ts';
+import { createTruncationSelection } from './truncationSelection.ts';
+import { createTournamentSelection } from './tournamentSelection.ts';
+import { createFitnessProportionateSelection } from './fitnessProportionateSelection.ts';
+import { createRankSelection } from './rankSelection.ts';
+import { createElitistRandomSelection } from './elitistRandomSelection.ts';
+import { createNsga2Selection, createNsga2TournamentSelection } from './nsga2Selection.ts';
+
+// Chooses prompts from a population, used for both parents and survivors.
+// Selection is without replacement and returns prompts in the order they were picked.
+// All randomness goes through the run's Rng so runs stay reproducible.
+export interface SelectionStrategy {
+  name: SelectionStrategyName;
+  description: string; // Name plus settings, for logs
+  select(population: Prompt[], count: number, rng: Rng): Prompt[];
+}
+
+// Helper to sort a copy of the population by score, highest first
+export function byScoreDescending(population: Prompt[]): Prompt[] {
+  return [...population].sort((a, b) => b.score - a.score);
+}
+
+// Build the selection strategy with the given name, using the shared selection settings
+export function createSelectionStrategy(name: SelectionStrategyName, config: SelectionConfig): SelectionStrategy {
+  switch (name) {
+    case 'truncation':
+      return createTruncationSelection();
+    case 'tournament':
+      return createTournamentSelection(config.tournamentSize);
+    case 'fitness-proportionate':
+      return createFitnessProportionateSelection();
+    case 'rank':
+      return createRankSelection();
+    case 'elitist-random':
+      return createElitistRandomSelection(config.eliteCount);
+    case 'nsga2':
+      return createNsga2Selection(config.objectives);
+    case 'nsga2-tournament':
+      return createNsga2TournamentSelection(config.objectives, config.tournamentSize);
+    default:
+      throw new Error(`Unknown selection strategy: ${name}`);
+  }
+}
@@ -0,0 +1,26 @@
+import { Prompt } from '../types.ts';
+import { SelectionStrategy } from './selectionStrategy.ts';
+
+// Repeatedly draw `size` random contenders from the prompts not yet picked and keep the best.
+// Larger tournaments mean stronger selection pressure.
+export function createTournamentSelection(size: number): SelectionStrategy {
+  return {
+    name: 'tournament',
+    description: `tournament (size ${size})`,
+    select(population, count, rng) {
+      const remaining = [...population];
+      const selected: Prompt[] = [];
+      while (selected.length < count && remaining.length > 0) {
+        let winner = rng.nextInt(remaining.length);
+        for (let i = 1; i < Math.min(size, remaining.length); i++) {
+          const contender = rng.nextInt(remaining.length);
+          if (remaining[contender].score > remaining[winner].score) {
+            winner = contender;
+          }
+        }
+        selected.push(...remaining.splice(winner, 1));
+      }
+      return selected;
+    },
+  };
+}
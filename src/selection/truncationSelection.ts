@@ -0,0 +1,10 @@
+import { byScoreDescending, SelectionStrategy } from './selectionStrategy.ts';
+
+// Keep the highest scores. Deterministic, and quick to collapse diversity.
+export function createTruncationSelection(): SelectionStrategy {
+  return {
+    name: 'truncation',
+    description: 'truncation',
+    select: (population, count) => byScoreDescending(population).slice(0, Math.max(count, 0)),
+  };
+}
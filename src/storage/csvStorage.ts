@@ -0,0 +1,344 @@
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import Papa from 'https://esm.sh/papaparse@5.4.1';
+import {
+  DiversityMetrics,
+  EvaluationError,
+  GenerationCost,
+  ParetoFrontEntry,
+  Prompt,
+  TournamentMatch,
+  TournamentRole
+} from '../types.ts';
+import { categoryColumn, CsvRow, objectiveColumn, readCSV } from '../csv.ts';
+import { outputPaths } from '../config.ts';
+import { RunRecords, Storage } from './storage.ts';
+import { ApiCallError } from '../apiErrors.ts';
+import { evaluationFailed } from '../scoring/fitness.ts';
+
+// Helper to list the columns of a set of rows, in first-seen order
+function columnsOf(rows: CsvRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return [...columns];
+}
+
+// Helper to append rows to a CSV file, writing the header when the file is new.
+// If the rows bring columns the file does not have yet (e.g. a new moderation
+// category), the file is rewritten with the widened header instead.
+export async function appendRowsToCSV(path: string, rows: CsvRow[]): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  if (!(await exists(path))) {
+    await Deno.writeTextFile(path, Papa.unparse(rows, { quotes: true, newline: '\n', columns: columnsOf(rows) }));
+    return;
+  }
+
+  const header = Papa.parse<string[]>((await Deno.readTextFile(path)).split(/\r?\n/, 1)[0]).data[0] ?? [];
+  const newColumns = columnsOf(rows).filter(column => !header.includes(column));
+  if (newColumns.length > 0) {
+    await writeRowsToCSV(path, [...(await readCSV(path)), ...rows], [...header, ...newColumns]);
+    return;
+  }
+
+  const csv = Papa.unparse(rows, { quotes: true, newline: '\n', header: false, columns: header });
+  await Deno.writeTextFile(path, `\n${csv}`, { append: true });
+}
+
+// Helper to (re)write a whole CSV file. A table with no rows and no known columns becomes an empty file.
+export async function writeRowsToCSV(path: string, rows: CsvRow[], columns = columnsOf(rows)): Promise<void> {
+  const csv = columns.length > 0 ? Papa.unparse(rows, { quotes: true, newline: '\n', columns }) : '';
+  await Deno.writeTextFile(path, csv);
+}
+
+export function populationRows(generation: number, prompts: Prompt[]): CsvRow[] {
+  return prompts.map((p) => ({
+    generation,
+    id: p.id,
+    prompt: p.content,
+  }));
+}
+
+// Helper to flatten an evaluation error into columns; all null when there was none
+export function errorColumns(error: EvaluationError | undefined): CsvRow {
+  return {
+    error_operation: error?.operation ?? null,
+    error_class: error?.kind ?? null,
+    error_status: error?.httpStatus ?? null,
+    error_retries: error?.retries ?? null,
+    error: error?.message ?? null
+  };
+}
+
+export function moderationRows(generation: number, prompts: Prompt[]): CsvRow[] {
+  return prompts.map((p) => {
+    const result: CsvRow = {
+      generation,
+      id: p.id,
+      prompt: p.content,
+      total_score: p.score,
+      flagged: p.flagged,
+      sample_count: p.samples?.length ?? 1,
+      fitness_variance: p.scoreVariance ?? 0,
+      input_tokens: p.usage?.inputTokens ?? 0,
+      output_tokens: p.usage?.outputTokens ?? 0,
+      cost: p.cost ?? 0,
+      status: p.status ?? 'ok',
+      ...errorColumns(p.error)
+    };
+
+    // Add all category scores to the result
+    if (p.categoryScores) {
+      Object.entries(p.categoryScores).forEach(([category, score]) => {
+        result[categoryColumn(category)] = score;
+      });
+    }
+
+    return result;
+  });
+}
+
+export function sampleRows(generation: number, prompts: Prompt[]): CsvRow[] {
+  return prompts.flatMap(p => (p.samples ?? []).map((sample, index) => {
+    const result: CsvRow = {
+      generation,
+      id: p.id,
+      sample: index + 1,
+      status: sample.status,
+      score: sample.score,
+      flagged: sample.flagged,
+      output: sample.output,
+      ...errorColumns(sample.error)
+    };
+    Object.entries(sample.categoryScores).forEach(([category, score]) => {
+      result[categoryColumn(category)] = score;
+    });
+    return result;
+  }));
+}
+
+export function transcriptRows(generation: number, prompts: Prompt[]): CsvRow[] {
+  return prompts.flatMap(p => (p.samples ?? []).flatMap((sample, index) => (sample.transcript ?? []).map((message, turn) => ({
+    generation,
+    id: p.id,
+    sample: index + 1,
+    turn: turn + 1,
+    role: message.role,
+    scored: sample.scoredTurns?.includes(turn) ?? false,
+    content: message.content
+  }))));
+}
+
+export function outputRows(generation: number, prompts: Prompt[]): CsvRow[] {
+  return prompts.map((p) => ({
+    generation,
+    id: p.id,
+    prompt: p.content,
+    output: p.output || '',
+    score: p.score,
+    flagged: p.flagged,
+    status: p.status ?? 'ok'
+  }));
+}
+
+export function breedingRows(generation: number, parent: Prompt, children: Prompt[]): CsvRow[] {
+  return children.map((child, index) => ({
+    generation,
+    parent_id: parent.id,
+    parent_score: parent.score,
+    parent_prompt: parent.content,
+    child_id: child.id,
+    child_number: index + 1,
+    child_prompt: child.content
+  }));
+}
+
+export function breedingFailureRow(
+  generation: number,
+  parent: Prompt,
+  attempt: number,
+  response: unknown,
+  error?: Error
+): CsvRow {
+  return {
+    generation,
+    timestamp: new Date().toISOString(),
+    parent_id: parent.id,
+    parent_score: parent.score,
+    parent_prompt: parent.content,
+    attempt,
+    error: error ? error.message : null,
+    error_class: error instanceof ApiCallError ? error.kind : null,
+    retries: error instanceof ApiCallError ? error.retries : null,
+    response_content: JSON.stringify(response)
+  };
+}
+
+export function lineageRows(prompts: Prompt[]): CsvRow[] {
+  return prompts.map((p) => ({
+    id: p.id,
+    birth_generation: p.birthGeneration,
+    operator: p.operator,
+    parent_ids: p.parentIds.join(' '),
+    prompt: p.content
+  }));
+}
+
+export function selectionRows(generation: number, stage: string, strategy: string, selected: Prompt[]): CsvRow[] {
+  return selected.map((p, index) => ({
+    generation,
+    stage,
+    strategy,
+    position: index + 1,
+    id: p.id,
+    score: p.score
+  }));
+}
+
+export function diversityRow(generation: number, metrics: DiversityMetrics, role?: TournamentRole): CsvRow {
+  return {
+    generation,
+    ...(role ? { role } : {}),
+    similarity: metrics.similarity,
+    population_size: metrics.populationSize,
+    mean_distance: metrics.meanDistance,
+    min_distance: metrics.minDistance,
+    niches: metrics.niches
+  };
+}
+
+export function paretoFrontRows(generation: number, front: ParetoFrontEntry[]): CsvRow[] {
+  return front.map(({ prompt, objectives, crowdingDistance }, index) => ({
+    generation,
+    position: index + 1,
+    id: prompt.id,
+    crowding_distance: crowdingDistance,
+    ...Object.fromEntries(Object.entries(objectives).map(([name, value]) => [objectiveColumn(name), value])),
+    prompt: prompt.content
+  }));
+}
+
+export function costRow(generation: number, cost: GenerationCost): CsvRow {
+  return {
+    generation,
+    evaluation_input_tokens: cost.evaluationUsage.inputTokens,
+    evaluation_output_tokens: cost.evaluationUsage.outputTokens,
+    breeding_input_tokens: cost.breedingUsage.inputTokens,
+    breeding_output_tokens: cost.breedingUsage.outputTokens,
+    evaluation_cost: cost.evaluationCost,
+    breeding_cost: cost.breedingCost,
+    run_cost: cost.runCost
+  };
+}
+
+// The parts of a prompt a tournament row shows
+type TournamentEntry = Pick<Prompt, 'id' | 'content' | 'score' | 'status' | 'error' | 'output'>;
+
+// One row per prompt per generation, as the original tournament.csv had: an attacker's attack, or a
+// defender's replies, with each opponent of the played matches in its own numbered columns.
+// Failed matches are only counted.
+export function tournamentRows(
+  generation: number,
+  attackers: TournamentEntry[],
+  defenders: TournamentEntry[],
+  matches: TournamentMatch[]
+): CsvRow[] {
+  const row = (p: TournamentEntry, role: TournamentRole): CsvRow => {
+    const own = matches.filter(m => (role === 'attacker' ? m.attackerId : m.defenderId) === p.id);
+    const played = own.filter(m => !evaluationFailed(m.status));
+    const result: CsvRow = {
+      generation,
+      id: p.id,
+      role,
+      prompt: p.content,
+      attack: role === 'attacker' ? p.output ?? '' : ''
+    };
+    played.forEach((m, index) => {
+      result[`opponent_${index + 1}`] = role === 'attacker' ? m.defenderId : m.attackerId;
+      result[`response_${index + 1}`] = m.response;
+      result[`attacker_won_${index + 1}`] = m.attackerWon;
+    });
+    return {
+      ...result,
+      wins: played.filter(m => m.attackerWon === (role === 'attacker')).length,
+      matches: played.length,
+      failed_matches: own.length - played.length,
+      score: p.score,
+      status: p.status ?? 'ok',
+      ...errorColumns(p.error)
+    };
+  };
+  return [...attackers.map(p => row(p, 'attacker')), ...defenders.map(p => row(p, 'defender'))];
+}
+
+// Write a run's records as the standard set of CSV files into a directory
+export async function exportRecordsToCSV(records: RunRecords, dir: string): Promise<string[]> {
+  const paths = outputPaths(dir);
+  const files: [string, CsvRow[]][] = [
+    [paths.population, records.population],
+    [paths.moderation, records.moderation],
+    [paths.outputs, records.outputs],
+    [paths.breeding, records.breeding],
+    [paths.breedingFailures, records.breedingFailures],
+    [paths.lineage, records.lineage],
+    [paths.selection, records.selection],
+    [paths.diversity, records.diversity],
+    [paths.paretoFront, records.paretoFront],
+    [paths.samples, records.samples],
+    [paths.costs, records.costs],
+    [paths.transcripts, records.transcripts],
+    [paths.tournament, records.tournament],
+  ];
+  await Deno.mkdir(dir, { recursive: true });
+  for (const [path, rows] of files) {
+    await writeRowsToCSV(path, rows);
+  }
+  return files.map(([path]) => path);
+}
+
+// Append-only CSV files in the run directory
+export function createCsvStorage(runDir: string): Storage {
+  const paths = outputPaths(runDir);
+
+  return {
+    kind: 'csv',
+    writePopulation: (generation, prompts) => appendRowsToCSV(paths.population, populationRows(generation, prompts)),
+    async writeEvaluations(generation, prompts) {
+      await appendRowsToCSV(paths.moderation, moderationRows(generation, prompts));
+      await appendRowsToCSV(paths.outputs, outputRows(generation, prompts));
+      await appendRowsToCSV(paths.samples, sampleRows(generation, prompts));
+      await appendRowsToCSV(paths.transcripts, transcriptRows(generation, prompts));
+    },
+    writeBreedingResults: (generation, parent, children) =>
+      appendRowsToCSV(paths.breeding, breedingRows(generation, parent, children)),
+    writeBreedingFailure: (generation, parent, attempt, response, error) =>
+      appendRowsToCSV(paths.breedingFailures, [breedingFailureRow(generation, parent, attempt, response, error)]),
+    writeLineage: (prompts) => appendRowsToCSV(paths.lineage, lineageRows(prompts)),
+    writeSelection: (generation, stage, strategy, selected) =>
+      appendRowsToCSV(paths.selection, selectionRows(generation, stage, strategy, selected)),
+    writeDiversity: (generation, metrics, role) => appendRowsToCSV(paths.diversity, [diversityRow(generation, metrics, role)]),
+    writeParetoFront: (generation, front) => appendRowsToCSV(paths.paretoFront, paretoFrontRows(generation, front)),
+    writeCosts: (generation, cost) => appendRowsToCSV(paths.costs, [costRow(generation, cost)]),
+    writeTournament: (generation, attackers, defenders, matches) =>
+      appendRowsToCSV(paths.tournament, tournamentRows(generation, attackers, defenders, matches)),
+    async readRecords(): Promise<RunRecords> {
+      return {
+        population: await readCSV(paths.population),
+        moderation: await readCSV(paths.moderation),
+        outputs: await readCSV(paths.outputs),
+        breeding: await readCSV(paths.breeding),
+        breedingFailures: await readCSV(paths.breedingFailures),
+        lineage: await readCSV(paths.lineage),
+        selection: await readCSV(paths.selection),
+        diversity: await readCSV(paths.diversity),
+        paretoFront: await readCSV(paths.paretoFront),
+        samples: await readCSV(paths.samples),
+        costs: await readCSV(paths.costs),
+        transcripts: await readCSV(paths.transcripts),
+        tournament: await readCSV(paths.tournament),
+      };
+    },
+    close() {},
+  };
+}
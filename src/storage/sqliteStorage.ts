@@ -0,0 +1,712 @@
+import { DatabaseSync } from 'node:sqlite';
+import { ApiErrorKind, ApiOperation, EvaluationError, EvaluationStatus, Prompt } from '../types.ts';
+import { categoryColumn, CsvRow, objectiveColumn } from '../csv.ts';
+import { RunRecords, Storage } from './storage.ts';
+import { ApiCallError } from '../apiErrors.ts';
+import { tournamentRows } from './csvStorage.ts';
+
+export const SQLITE_FILE = 'run.sqlite';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    run_id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS generations (
+    run_id TEXT NOT NULL REFERENCES runs(run_id),
+    generation INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS prompts (
+    prompt_id TEXT PRIMARY KEY,
+    content TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS population_members (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    prompt_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    position INTEGER NOT NULL,
+    PRIMARY KEY (run_id, generation, position),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS evaluations (
+    evaluation_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    prompt_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    output TEXT,
+    score REAL NOT NULL,
+    flagged INTEGER,
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS category_scores (
+    evaluation_id INTEGER NOT NULL REFERENCES evaluations(evaluation_id),
+    category TEXT NOT NULL,
+    score REAL NOT NULL,
+    PRIMARY KEY (evaluation_id, category)
+  );
+  CREATE TABLE IF NOT EXISTS breeding_events (
+    event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    parent_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    parent_score REAL NOT NULL,
+    child_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    child_number INTEGER NOT NULL,
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS breeding_failures (
+    failure_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    parent_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    parent_score REAL NOT NULL,
+    attempt INTEGER NOT NULL,
+    error TEXT,
+    response_content TEXT,
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS lineage (
+    run_id TEXT NOT NULL REFERENCES runs(run_id),
+    prompt_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    birth_generation INTEGER NOT NULL,
+    operator TEXT NOT NULL,
+    PRIMARY KEY (run_id, prompt_id)
+  );
+  CREATE TABLE IF NOT EXISTS prompt_parents (
+    run_id TEXT NOT NULL,
+    prompt_id TEXT NOT NULL,
+    parent_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    position INTEGER NOT NULL,
+    PRIMARY KEY (run_id, prompt_id, position),
+    FOREIGN KEY (run_id, prompt_id) REFERENCES lineage(run_id, prompt_id)
+  );
+  CREATE TABLE IF NOT EXISTS selections (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    stage TEXT NOT NULL,
+    strategy TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    prompt_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    score REAL NOT NULL,
+    PRIMARY KEY (run_id, generation, stage, position),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS diversity (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    similarity TEXT NOT NULL,
+    population_size INTEGER NOT NULL,
+    mean_distance REAL NOT NULL,
+    min_distance REAL NOT NULL,
+    niches INTEGER NOT NULL,
+    PRIMARY KEY (run_id, generation),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS pareto_front (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    prompt_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    crowding_distance REAL NOT NULL,
+    PRIMARY KEY (run_id, generation, position),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS pareto_objectives (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    objective TEXT NOT NULL,
+    value REAL NOT NULL,
+    PRIMARY KEY (run_id, generation, position, objective),
+    FOREIGN KEY (run_id, generation, position) REFERENCES pareto_front(run_id, generation, position)
+  );
+  CREATE TABLE IF NOT EXISTS evaluation_sampling (
+    evaluation_id INTEGER PRIMARY KEY REFERENCES evaluations(evaluation_id),
+    sample_count INTEGER NOT NULL,
+    fitness_variance REAL NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS samples (
+    sample_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    evaluation_id INTEGER NOT NULL REFERENCES evaluations(evaluation_id),
+    sample INTEGER NOT NULL,
+    output TEXT NOT NULL,
+    score REAL NOT NULL,
+    flagged INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sample_category_scores (
+    sample_id INTEGER NOT NULL REFERENCES samples(sample_id),
+    category TEXT NOT NULL,
+    score REAL NOT NULL,
+    PRIMARY KEY (sample_id, category)
+  );
+  CREATE TABLE IF NOT EXISTS breeding_failure_errors (
+    failure_id INTEGER PRIMARY KEY REFERENCES breeding_failures(failure_id),
+    error_class TEXT NOT NULL,
+    retries INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS evaluation_costs (
+    evaluation_id INTEGER PRIMARY KEY REFERENCES evaluations(evaluation_id),
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    cost REAL NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS generation_costs (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    evaluation_input_tokens INTEGER NOT NULL,
+    evaluation_output_tokens INTEGER NOT NULL,
+    breeding_input_tokens INTEGER NOT NULL,
+    breeding_output_tokens INTEGER NOT NULL,
+    evaluation_cost REAL NOT NULL,
+    breeding_cost REAL NOT NULL,
+    run_cost REAL NOT NULL,
+    PRIMARY KEY (run_id, generation),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS evaluation_status (
+    evaluation_id INTEGER PRIMARY KEY REFERENCES evaluations(evaluation_id),
+    status TEXT NOT NULL,
+    error_operation TEXT,
+    error_class TEXT,
+    error_status INTEGER,
+    error_retries INTEGER,
+    error TEXT
+  );
+  CREATE TABLE IF NOT EXISTS sample_status (
+    sample_id INTEGER PRIMARY KEY REFERENCES samples(sample_id),
+    status TEXT NOT NULL,
+    error_operation TEXT,
+    error_class TEXT,
+    error_status INTEGER,
+    error_retries INTEGER,
+    error TEXT
+  );
+  CREATE TABLE IF NOT EXISTS transcript_turns (
+    sample_id INTEGER NOT NULL REFERENCES samples(sample_id),
+    turn INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    scored INTEGER NOT NULL,
+    PRIMARY KEY (sample_id, turn)
+  );
+  CREATE TABLE IF NOT EXISTS tournament_entries (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    prompt_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    attack TEXT,
+    score REAL NOT NULL,
+    status TEXT NOT NULL,
+    error_operation TEXT,
+    error_class TEXT,
+    error_status INTEGER,
+    error_retries INTEGER,
+    error TEXT,
+    PRIMARY KEY (run_id, generation, role, prompt_id),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS tournament_diversity (
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    similarity TEXT NOT NULL,
+    population_size INTEGER NOT NULL,
+    mean_distance REAL NOT NULL,
+    min_distance REAL NOT NULL,
+    niches INTEGER NOT NULL,
+    PRIMARY KEY (run_id, generation, role),
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE TABLE IF NOT EXISTS tournament_matches (
+    match_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    generation INTEGER NOT NULL,
+    attacker_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    defender_id TEXT NOT NULL REFERENCES prompts(prompt_id),
+    attack TEXT NOT NULL,
+    response TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attacker_won INTEGER NOT NULL,
+    reason TEXT,
+    error_operation TEXT,
+    error_class TEXT,
+    error_status INTEGER,
+    error_retries INTEGER,
+    error TEXT,
+    FOREIGN KEY (run_id, generation) REFERENCES generations(run_id, generation)
+  );
+  CREATE INDEX IF NOT EXISTS evaluations_by_prompt ON evaluations(prompt_id);
+`;
+
+// Normalized SQLite database in the run directory
+export function createSqliteStorage(runDir: string, runId: string): Storage {
+  const db = new DatabaseSync(`${runDir}/${SQLITE_FILE}`);
+  db.exec(SCHEMA);
+  db.prepare('INSERT OR IGNORE INTO runs (run_id, created_at) VALUES (?, ?)').run(runId, new Date().toISOString());
+
+  const insertGeneration = db.prepare(
+    'INSERT OR IGNORE INTO generations (run_id, generation, created_at) VALUES (?, ?, ?)'
+  );
+  const insertPrompt = db.prepare('INSERT OR IGNORE INTO prompts (prompt_id, content) VALUES (?, ?)');
+  const insertMember = db.prepare(
+    'INSERT OR REPLACE INTO population_members (run_id, generation, prompt_id, position) VALUES (?, ?, ?, ?)'
+  );
+  const insertEvaluation = db.prepare(
+    'INSERT INTO evaluations (run_id, generation, prompt_id, output, score, flagged) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const insertCategoryScore = db.prepare(
+    'INSERT INTO category_scores (evaluation_id, category, score) VALUES (?, ?, ?)'
+  );
+  const insertSampling = db.prepare(
+    'INSERT INTO evaluation_sampling (evaluation_id, sample_count, fitness_variance) VALUES (?, ?, ?)'
+  );
+  const insertEvaluationCost = db.prepare(
+    'INSERT INTO evaluation_costs (evaluation_id, input_tokens, output_tokens, cost) VALUES (?, ?, ?, ?)'
+  );
+  const insertEvaluationStatus = db.prepare(
+    `INSERT INTO evaluation_status (evaluation_id, status, error_operation, error_class, error_status, error_retries, error)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertSampleStatus = db.prepare(
+    `INSERT INTO sample_status (sample_id, status, error_operation, error_class, error_status, error_retries, error)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertTranscriptTurn = db.prepare(
+    'INSERT INTO transcript_turns (sample_id, turn, role, content, scored) VALUES (?, ?, ?, ?, ?)'
+  );
+  const insertSample = db.prepare(
+    'INSERT INTO samples (evaluation_id, sample, output, score, flagged) VALUES (?, ?, ?, ?, ?)'
+  );
+  const insertSampleCategoryScore = db.prepare(
+    'INSERT INTO sample_category_scores (sample_id, category, score) VALUES (?, ?, ?)'
+  );
+  const insertBreedingEvent = db.prepare(
+    'INSERT INTO breeding_events (run_id, generation, parent_id, parent_score, child_id, child_number) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const insertFailure = db.prepare(
+    `INSERT INTO breeding_failures (run_id, generation, created_at, parent_id, parent_score, attempt, error, response_content)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertFailureError = db.prepare(
+    'INSERT INTO breeding_failure_errors (failure_id, error_class, retries) VALUES (?, ?, ?)'
+  );
+  const insertLineage = db.prepare(
+    'INSERT OR IGNORE INTO lineage (run_id, prompt_id, birth_generation, operator) VALUES (?, ?, ?, ?)'
+  );
+  const insertParent = db.prepare(
+    'INSERT OR IGNORE INTO prompt_parents (run_id, prompt_id, parent_id, position) VALUES (?, ?, ?, ?)'
+  );
+  const insertSelection = db.prepare(
+    `INSERT OR REPLACE INTO selections (run_id, generation, stage, strategy, position, prompt_id, score)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertDiversity = db.prepare(
+    `INSERT OR REPLACE INTO diversity (run_id, generation, similarity, population_size, mean_distance, min_distance, niches)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertTournamentDiversity = db.prepare(
+    `INSERT OR REPLACE INTO tournament_diversity (run_id, generation, role, similarity, population_size, mean_distance, min_distance, niches)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertParetoMember = db.prepare(
+    'INSERT OR REPLACE INTO pareto_front (run_id, generation, position, prompt_id, crowding_distance) VALUES (?, ?, ?, ?, ?)'
+  );
+  const insertParetoObjective = db.prepare(
+    'INSERT OR REPLACE INTO pareto_objectives (run_id, generation, position, objective, value) VALUES (?, ?, ?, ?, ?)'
+  );
+  const insertGenerationCost = db.prepare(
+    `INSERT OR REPLACE INTO generation_costs (run_id, generation, evaluation_input_tokens, evaluation_output_tokens,
+       breeding_input_tokens, breeding_output_tokens, evaluation_cost, breeding_cost, run_cost)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  const insertTournamentEntry = db.prepare(
+    `INSERT OR REPLACE INTO tournament_entries (run_id, generation, role, prompt_id, attack, score, status,
+       error_operation, error_class, error_status, error_retries, error)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertTournamentMatch = db.prepare(
+    `INSERT INTO tournament_matches (run_id, generation, attacker_id, defender_id, attack, response, status, attacker_won, reason,
+       error_operation, error_class, error_status, error_retries, error)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  // Helper to run several statements atomically
+  const transaction = (work: () => void): Promise<void> => {
+    db.exec('BEGIN');
+    try {
+      work();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      return Promise.reject(error);
+    }
+    return Promise.resolve();
+  };
+
+  const ensureGeneration = (generation: number) =>
+    insertGeneration.run(runId, generation, new Date().toISOString());
+  const ensurePrompt = (prompt: Prompt) => insertPrompt.run(prompt.id, prompt.content);
+  const errorValues = (error: EvaluationError | undefined) => [
+    error?.operation ?? null,
+    error?.kind ?? null,
+    error?.httpStatus ?? null,
+    error?.retries ?? null,
+    error?.message ?? null,
+  ] as const;
+  // Status columns are only shown for evaluations and samples from runs that recorded them
+  const withStatus = (row: CsvRow, status: CsvRow): CsvRow => status.status === null ? row : {
+    ...row,
+    status: status.status,
+    error_operation: status.error_operation,
+    error_class: status.error_class,
+    error_status: status.error_status,
+    error_retries: status.error_retries,
+    error: status.error,
+  };
+
+  // Rebuild the CSV-shaped rows from the normalized tables
+  const readRecords = (): RunRecords => {
+    const all = (sql: string) => db.prepare(sql).all(runId) as CsvRow[];
+
+    const population = all(`
+      SELECT m.generation, m.prompt_id AS id, p.content AS prompt
+      FROM population_members m JOIN prompts p USING (prompt_id)
+      WHERE m.run_id = ? ORDER BY m.generation, m.position`);
+
+    const evaluations = all(`
+      SELECT e.evaluation_id, e.generation, e.prompt_id AS id, p.content AS prompt, e.output, e.score, e.flagged,
+             s.sample_count, s.fitness_variance, c.input_tokens, c.output_tokens, c.cost,
+             x.status, x.error_operation, x.error_class, x.error_status, x.error_retries, x.error
+      FROM evaluations e JOIN prompts p USING (prompt_id)
+      LEFT JOIN evaluation_sampling s USING (evaluation_id)
+      LEFT JOIN evaluation_costs c USING (evaluation_id)
+      LEFT JOIN evaluation_status x USING (evaluation_id)
+      WHERE e.run_id = ? ORDER BY e.evaluation_id`);
+    const categoryRows = all(`
+      SELECT c.evaluation_id, c.category, c.score
+      FROM category_scores c JOIN evaluations e USING (evaluation_id)
+      WHERE e.run_id = ? ORDER BY c.rowid`);
+    const categoriesByEvaluation = new Map<number, CsvRow[]>();
+    categoryRows.forEach((row) => {
+      const evaluationId = Number(row.evaluation_id);
+      categoriesByEvaluation.set(evaluationId, categoriesByEvaluation.get(evaluationId) || []);
+      categoriesByEvaluation.get(evaluationId)!.push(row);
+    });
+
+    const flagged = (value: unknown) => value === null ? undefined : value === 1;
+    const moderation = evaluations.map((e) => {
+      const row: CsvRow = { generation: e.generation, id: e.id, prompt: e.prompt, total_score: e.score, flagged: flagged(e.flagged) };
+      // Runs from before repeated sampling have no sampling row
+      if (e.sample_count !== null) {
+        row.sample_count = e.sample_count;
+        row.fitness_variance = e.fitness_variance;
+      }
+      // Runs from before cost accounting have no cost row
+      if (e.cost !== null) {
+        row.input_tokens = e.input_tokens;
+        row.output_tokens = e.output_tokens;
+        row.cost = e.cost;
+      }
+      (categoriesByEvaluation.get(Number(e.evaluation_id)) || []).forEach((c) => {
+        row[categoryColumn(String(c.category))] = c.score;
+      });
+      return withStatus(row, e);
+    });
+    const outputs = evaluations.map((e) => {
+      const row: CsvRow = {
+        generation: e.generation,
+        id: e.id,
+        prompt: e.prompt,
+        output: e.output ?? '',
+        score: e.score,
+        flagged: flagged(e.flagged),
+      };
+      if (e.status !== null) {
+        row.status = e.status;
+      }
+      return row;
+    });
+
+    const sampleRecords = all(`
+      SELECT s.sample_id, e.generation, e.prompt_id AS id, s.sample, s.score, s.flagged, s.output,
+             x.status, x.error_operation, x.error_class, x.error_status, x.error_retries, x.error
+      FROM samples s JOIN evaluations e USING (evaluation_id)
+      LEFT JOIN sample_status x USING (sample_id)
+      WHERE e.run_id = ? ORDER BY s.sample_id`);
+    const sampleCategoryRows = all(`
+      SELECT c.sample_id, c.category, c.score
+      FROM sample_category_scores c JOIN samples s USING (sample_id) JOIN evaluations e USING (evaluation_id)
+      WHERE e.run_id = ? ORDER BY c.rowid`);
+    const categoriesBySample = new Map<number, CsvRow[]>();
+    sampleCategoryRows.forEach((row) => {
+      const sampleId = Number(row.sample_id);
+      categoriesBySample.set(sampleId, categoriesBySample.get(sampleId) || []);
+      categoriesBySample.get(sampleId)!.push(row);
+    });
+    const samples = sampleRecords.map(({ sample_id, generation, id, sample, score, flagged, output, ...status }) => {
+      const row: CsvRow = withStatus({ generation, id, sample, score, flagged: flagged === 1, output }, status);
+      (categoriesBySample.get(Number(sample_id)) || []).forEach((c) => {
+        row[categoryColumn(String(c.category))] = c.score;
+      });
+      return row;
+    });
+
+    const breeding = all(`
+      SELECT b.generation, b.parent_id, b.parent_score, parent.content AS parent_prompt,
+             b.child_id, b.child_number, child.content AS child_prompt
+      FROM breeding_events b
+      JOIN prompts parent ON parent.prompt_id = b.parent_id
+      JOIN prompts child ON child.prompt_id = b.child_id
+      WHERE b.run_id = ? ORDER BY b.event_id`);
+
+    const breedingFailures = all(`
+      SELECT f.generation, f.created_at AS timestamp, f.parent_id, f.parent_score, p.content AS parent_prompt,
+             f.attempt, f.error, x.error_class, x.retries, f.response_content
+      FROM breeding_failures f JOIN prompts p ON p.prompt_id = f.parent_id
+      LEFT JOIN breeding_failure_errors x USING (failure_id)
+      WHERE f.run_id = ? ORDER BY f.failure_id`);
+
+    const lineage = all(`
+      SELECT l.prompt_id AS id, l.birth_generation, l.operator,
+             COALESCE((SELECT group_concat(parent_id, ' ') FROM (
+               SELECT parent_id FROM prompt_parents pp
+               WHERE pp.run_id = l.run_id AND pp.prompt_id = l.prompt_id ORDER BY pp.position
+             )), '') AS parent_ids,
+             p.content AS prompt
+      FROM lineage l JOIN prompts p USING (prompt_id)
+      WHERE l.run_id = ? ORDER BY l.rowid`);
+
+    const selection = all(`
+      SELECT generation, stage, strategy, position, prompt_id AS id, score
+      FROM selections WHERE run_id = ? ORDER BY generation, stage, position`);
+
+    const diversity = [
+      ...all(`
+        SELECT generation, similarity, population_size, mean_distance, min_distance, niches
+        FROM diversity WHERE run_id = ? ORDER BY generation`),
+      ...all(`
+        SELECT generation, role, similarity, population_size, mean_distance, min_distance, niches
+        FROM tournament_diversity WHERE run_id = ? ORDER BY generation, role`),
+    ];
+
+    const paretoMembers = all(`
+      SELECT f.generation, f.position, f.prompt_id AS id, f.crowding_distance, p.content AS prompt
+      FROM pareto_front f JOIN prompts p USING (prompt_id)
+      WHERE f.run_id = ? ORDER BY f.generation, f.position`);
+    const paretoObjectives = all(`
+      SELECT generation, position, objective, value
+      FROM pareto_objectives WHERE run_id = ? ORDER BY rowid`);
+    const paretoFront = paretoMembers.map((member) => {
+      const row: CsvRow = { generation: member.generation, position: member.position, id: member.id, crowding_distance: member.crowding_distance };
+      paretoObjectives
+        .filter(o => o.generation === member.generation && o.position === member.position)
+        .forEach((o) => {
+          row[objectiveColumn(String(o.objective))] = o.value;
+        });
+      row.prompt = member.prompt;
+      return row;
+    });
+
+    const transcripts = all(`
+      SELECT e.generation, e.prompt_id AS id, s.sample, t.turn, t.role, t.scored, t.content
+      FROM transcript_turns t JOIN samples s USING (sample_id) JOIN evaluations e USING (evaluation_id)
+      WHERE e.run_id = ? ORDER BY t.sample_id, t.turn`).map(row => ({ ...row, scored: row.scored === 1 }));
+
+    const costs = all(`
+      SELECT generation, evaluation_input_tokens, evaluation_output_tokens, breeding_input_tokens, breeding_output_tokens,
+             evaluation_cost, breeding_cost, run_cost
+      FROM generation_costs WHERE run_id = ? ORDER BY generation`);
+
+    // Tournament rows are rebuilt with the CSV backend's row builder, one generation at a time
+    const entries = all(`
+      SELECT t.generation, t.role, t.prompt_id AS id, p.content, t.attack, t.score,
+             t.status, t.error_operation, t.error_class, t.error_status, t.error_retries, t.error
+      FROM tournament_entries t JOIN prompts p USING (prompt_id)
+      WHERE t.run_id = ? ORDER BY t.generation, t.rowid`);
+    const matches = all(`
+      SELECT generation, attacker_id, defender_id, attack, response, status, attacker_won, reason
+      FROM tournament_matches WHERE run_id = ? ORDER BY match_id`);
+    const readError = (row: CsvRow): EvaluationError | undefined => row.error_operation === null ? undefined : {
+      operation: row.error_operation as ApiOperation,
+      kind: row.error_class as ApiErrorKind,
+      message: String(row.error),
+      httpStatus: row.error_status === null ? undefined : Number(row.error_status),
+      retries: Number(row.error_retries),
+    };
+    const tournament = [...new Set(entries.map(e => e.generation))].flatMap((generation) => {
+      const toEntry = (e: CsvRow) => ({
+        id: String(e.id),
+        content: String(e.content),
+        score: Number(e.score),
+        status: e.status as EvaluationStatus,
+        error: readError(e),
+        output: e.attack === null ? undefined : String(e.attack),
+      });
+      const inGeneration = entries.filter(e => e.generation === generation);
+      return tournamentRows(
+        Number(generation),
+        inGeneration.filter(e => e.role === 'attacker').map(toEntry),
+        inGeneration.filter(e => e.role === 'defender').map(toEntry),
+        matches.filter(m => m.generation === generation).map(m => ({
+          attackerId: String(m.attacker_id),
+          defenderId: String(m.defender_id),
+          attack: String(m.attack),
+          response: String(m.response),
+          status: m.status as EvaluationStatus,
+          attackerWon: m.attacker_won === 1,
+          reason: m.reason === null ? undefined : String(m.reason),
+        }))
+      );
+    });
+
+    return {
+      population, moderation, outputs, breeding, breedingFailures, lineage, selection, diversity, paretoFront, samples, costs,
+      transcripts, tournament
+    };
+  };
+
+  return {
+    kind: 'sqlite',
+    writePopulation: (generation, prompts) => transaction(() => {
+      ensureGeneration(generation);
+      prompts.forEach((p, position) => {
+        ensurePrompt(p);
+        insertMember.run(runId, generation, p.id, position);
+      });
+    }),
+    writeEvaluations: (generation, prompts) => transaction(() => {
+      ensureGeneration(generation);
+      prompts.forEach((p) => {
+        ensurePrompt(p);
+        const flagged = p.flagged === undefined ? null : p.flagged ? 1 : 0;
+        const { lastInsertRowid } = insertEvaluation.run(runId, generation, p.id, p.output ?? null, p.score, flagged);
+        Object.entries(p.categoryScores || {}).forEach(([category, score]) => {
+          insertCategoryScore.run(lastInsertRowid, category, score);
+        });
+        insertSampling.run(lastInsertRowid, p.samples?.length ?? 1, p.scoreVariance ?? 0);
+        insertEvaluationCost.run(lastInsertRowid, p.usage?.inputTokens ?? 0, p.usage?.outputTokens ?? 0, p.cost ?? 0);
+        insertEvaluationStatus.run(lastInsertRowid, p.status ?? 'ok', ...errorValues(p.error));
+        (p.samples ?? []).forEach((sample, index) => {
+          const inserted = insertSample.run(lastInsertRowid, index + 1, sample.output, sample.score, sample.flagged ? 1 : 0);
+          insertSampleStatus.run(inserted.lastInsertRowid, sample.status, ...errorValues(sample.error));
+          (sample.transcript ?? []).forEach((message, turn) => {
+            insertTranscriptTurn.run(inserted.lastInsertRowid, turn + 1, message.role, message.content, sample.scoredTurns?.includes(turn) ? 1 : 0);
+          });
+          Object.entries(sample.categoryScores).forEach(([category, score]) => {
+            insertSampleCategoryScore.run(inserted.lastInsertRowid, category, score);
+          });
+        });
+      });
+    }),
+    writeBreedingResults: (generation, parent, children) => transaction(() => {
+      ensureGeneration(generation);
+      ensurePrompt(parent);
+      children.forEach((child, index) => {
+        ensurePrompt(child);
+        insertBreedingEvent.run(runId, generation, parent.id, parent.score, child.id, index + 1);
+      });
+    }),
+    writeBreedingFailure: (generation, parent, attempt, response, error) => transaction(() => {
+      ensureGeneration(generation);
+      ensurePrompt(parent);
+      const { lastInsertRowid } = insertFailure.run(
+        runId,
+        generation,
+        new Date().toISOString(),
+        parent.id,
+        parent.score,
+        attempt,
+        error ? error.message : null,
+        JSON.stringify(response)
+      );
+      if (error instanceof ApiCallError) {
+        insertFailureError.run(lastInsertRowid, error.kind, error.retries);
+      }
+    }),
+    writeLineage: (prompts) => transaction(() => {
+      prompts.forEach((p) => {
+        ensurePrompt(p);
+        insertLineage.run(runId, p.id, p.birthGeneration, p.operator);
+        p.parentIds.forEach((parentId, position) => insertParent.run(runId, p.id, parentId, position));
+      });
+    }),
+    writeSelection: (generation, stage, strategy, selected) => transaction(() => {
+      ensureGeneration(generation);
+      selected.forEach((p, index) => {
+        ensurePrompt(p);
+        insertSelection.run(runId, generation, stage, strategy, index + 1, p.id, p.score);
+      });
+    }),
+    writeDiversity: (generation, metrics, role) => transaction(() => {
+      ensureGeneration(generation);
+      const values = [metrics.similarity, metrics.populationSize, metrics.meanDistance, metrics.minDistance, metrics.niches] as const;
+      if (role) {
+        insertTournamentDiversity.run(runId, generation, role, ...values);
+      } else {
+        insertDiversity.run(runId, generation, ...values);
+      }
+    }),
+    writeParetoFront: (generation, front) => transaction(() => {
+      ensureGeneration(generation);
+      front.forEach(({ prompt, objectives, crowdingDistance }, index) => {
+        ensurePrompt(prompt);
+        insertParetoMember.run(runId, generation, index + 1, prompt.id, crowdingDistance);
+        Object.entries(objectives).forEach(([objective, value]) => {
+          insertParetoObjective.run(runId, generation, index + 1, objective, value);
+        });
+      });
+    }),
+    writeCosts: (generation, cost) => transaction(() => {
+      ensureGeneration(generation);
+      insertGenerationCost.run(
+        runId,
+        generation,
+        cost.evaluationUsage.inputTokens,
+        cost.evaluationUsage.outputTokens,
+        cost.breedingUsage.inputTokens,
+        cost.breedingUsage.outputTokens,
+        cost.evaluationCost,
+        cost.breedingCost,
+        cost.runCost
+      );
+    }),
+    writeTournament: (generation, attackers, defenders, matches) => transaction(() => {
+      ensureGeneration(generation);
+      const writeEntries = (prompts: Prompt[], role: string) => prompts.forEach((p) => {
+        ensurePrompt(p);
+        insertTournamentEntry.run(
+          runId,
+          generation,
+          role,
+          p.id,
+          role === 'attacker' ? p.output ?? null : null,
+          p.score,
+          p.status ?? 'ok',
+          ...errorValues(p.error)
+        );
+      });
+      writeEntries(attackers, 'attacker');
+      writeEntries(defenders, 'defender');
+      matches.forEach((m) => {
+        insertTournamentMatch.run(
+          runId,
+          generation,
+          m.attackerId,
+          m.defenderId,
+          m.attack,
+          m.response,
+          m.status,
+          m.attackerWon ? 1 : 0,
+          m.reason ?? null,
+          ...errorValues(m.error)
+        );
+      });
+    }),
+    readRecords: () => Promise.resolve(readRecords()),
+    close: () => db.close(),
+  };
+}
@@ -0,0 +1,67 @@
+import { exists } from 'https://deno.land/std@0.224.0/fs/mod.ts';
+import { DiversityMetrics, GenerationCost, ParetoFrontEntry, Prompt, StorageKind, TournamentMatch, TournamentRole } from '../types.ts';
+import { CsvRow } from '../csv.ts';
+import { createCsvStorage } from './csvStorage.ts';
+import { createSqliteStorage, SQLITE_FILE } from './sqliteStorage.ts';
+
+// Everything a run has recorded, in the row shapes of the CSV files
+export interface RunRecords {
+  population: CsvRow[];
+  moderation: CsvRow[];
+  outputs: CsvRow[];
+  breeding: CsvRow[];
+  breedingFailures: CsvRow[];
+  lineage: CsvRow[];
+  selection: CsvRow[];
+  diversity: CsvRow[];
+  paretoFront: CsvRow[];
+  samples: CsvRow[];
+  costs: CsvRow[];
+  transcripts: CsvRow[];
+  tournament: CsvRow[];
+}
+
+// Which step of a generation a selection was made for. Tournament runs prefix it with the population's role.
+export type SelectionStage = 'parents' | 'survivors' | `${TournamentRole}-parents` | `${TournamentRole}-survivors`;
+
+// Where a run's results go. Writes happen once per event; reads return everything recorded.
+export interface Storage {
+  kind: StorageKind;
+  writePopulation(generation: number, prompts: Prompt[]): Promise<void>;
+  writeEvaluations(generation: number, prompts: Prompt[]): Promise<void>;
+  writeBreedingResults(generation: number, parent: Prompt, children: Prompt[]): Promise<void>;
+  writeBreedingFailure(
+    generation: number,
+    parent: Prompt,
+    attempt: number,
+    response: unknown,
+    error?: Error
+  ): Promise<void>;
+  writeLineage(prompts: Prompt[]): Promise<void>;
+  writeSelection(generation: number, stage: SelectionStage, strategy: string, selected: Prompt[]): Promise<void>;
+  // Tournament mode records each population's diversity under its role
+  writeDiversity(generation: number, metrics: DiversityMetrics, role?: TournamentRole): Promise<void>;
+  writeParetoFront(generation: number, front: ParetoFrontEntry[]): Promise<void>;
+  writeCosts(generation: number, cost: GenerationCost): Promise<void>;
+  // Tournament mode: both populations with their scores, and every match of the generation
+  writeTournament(generation: number, attackers: Prompt[], defenders: Prompt[], matches: TournamentMatch[]): Promise<void>;
+  readRecords(): Promise<RunRecords>;
+  close(): void;
+}
+
+// Open the storage backend for a run directory
+export function openStorage(runDir: string, runId: string, kind: StorageKind): Storage {
+  switch (kind) {
+    case 'csv':
+      return createCsvStorage(runDir);
+    case 'sqlite':
+      return createSqliteStorage(runDir, runId);
+    default:
+      throw new Error(`Unknown storage backend: ${kind}`);
+  }
+}
+
+// Helper to tell which backend an existing run was written with
+export async function detectStorageKind(runDir: string): Promise<StorageKind> {
+  return (await exists(`${runDir}/${SQLITE_FILE}`)) ? 'sqlite' : 'csv';
+}
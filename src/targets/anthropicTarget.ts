@@ -0,0 +1,46 @@
+import Anthropic from 'https://esm.sh/@anthropic-ai/sdk@0.36.3';
+import { ChatMessage, TargetConfig, TargetResponse } from '../types.ts';
+import { TargetProvider } from './targetProvider.ts';
+import { withCassette } from '../cassette.ts';
+import { estimateTokens, withThrottle } from '../throttle.ts';
+
+// Target backed by Anthropic's Messages API
+export function createAnthropicTarget(settings: TargetConfig): TargetProvider {
+  const anthropic = new Anthropic({
+    apiKey: Deno.env.get('ANTHROPIC_API_KEY') || '',
+    maxRetries: 0, // safeApiCall retries
+  });
+
+  return {
+    name: 'anthropic',
+    model: settings.model,
+    async generate(messages: ChatMessage[], signal?: AbortSignal, systemPrompt = settings.systemPrompt): Promise<TargetResponse> {
+      const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
+        model: settings.model,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        system: systemPrompt,
+        messages,
+      };
+      const response = await withCassette('anthropic.messages.create', params, () => withThrottle(
+        'anthropic',
+        estimateTokens(`${systemPrompt}${JSON.stringify(messages)}`) + settings.maxTokens,
+        signal,
+        () => anthropic.messages.create(params, { signal }).withResponse(),
+        message => message.usage.input_tokens + message.usage.output_tokens
+      ));
+
+      // Extract text from the response
+      const text = response.content.map(block =>
+        block.type === 'text' ? block.text : ''
+      ).join(' ');
+
+      return {
+        text,
+        usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+        // Newer than this SDK's types: models may stop with a refusal instead of answering
+        refused: (response.stop_reason as string | null) === 'refusal',
+      };
+    },
+  };
+}
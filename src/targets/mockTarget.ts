@@ -0,0 +1,21 @@
+import { ChatMessage, TargetConfig, TargetResponse } from '../types.ts';
+import { TargetProvider } from './targetProvider.ts';
+
+export type MockResponder = (messages: ChatMessage[]) => string;
+
+// Default responder: deterministically echo the last user message
+function echoResponder(messages: ChatMessage[]): string {
+  const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+  return `Mock response to: ${lastUserMessage?.content ?? ''}`;
+}
+
+// In-process target for dry runs and offline development. Makes no network calls.
+export function createMockTarget(settings: TargetConfig, respond: MockResponder = echoResponder): TargetProvider {
+  return {
+    name: 'mock',
+    model: settings.model,
+    generate(messages: ChatMessage[]): Promise<TargetResponse> {
+      return Promise.resolve({ text: respond(messages) });
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import OpenAI from 'https://esm.sh/openai@4.26.0';
+import { ChatMessage, TargetConfig, TargetResponse } from '../types.ts';
+import { TargetProvider } from './targetProvider.ts';
+import { withCassette } from '../cassette.ts';
+import { estimateTokens, withThrottle } from '../throttle.ts';
+
+// Target backed by any server exposing /v1/chat/completions (OpenAI, vLLM,
+// llama.cpp, Ollama, ...). baseUrl should include the /v1 suffix.
+export function createOpenAICompatibleTarget(settings: TargetConfig): TargetProvider {
+  const client = new OpenAI({
+    baseURL: settings.baseUrl,
+    // Local servers usually ignore the key, but the SDK refuses an empty one
+    apiKey: Deno.env.get('TARGET_API_KEY') || 'not-needed',
+    maxRetries: 0, // safeApiCall retries
+  });
+
+  return {
+    name: 'openai-compatible',
+    model: settings.model,
+    async generate(messages: ChatMessage[], signal?: AbortSignal, systemPrompt = settings.systemPrompt): Promise<TargetResponse> {
+      const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+        model: settings.model,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...messages,
+        ],
+      };
+      const completion = await withCassette('openai.chat.completions.create', { baseUrl: settings.baseUrl, ...params }, () => withThrottle(
+        'openai-compatible',
+        estimateTokens(JSON.stringify(params.messages)) + settings.maxTokens,
+        signal,
+        () => client.chat.completions.create(params, { signal }).withResponse(),
+        completion => completion.usage?.total_tokens
+      ));
+
+      const choice = completion.choices[0];
+      return {
+        text: choice?.message?.content ?? '',
+        // Some local servers leave usage out
+        usage: completion.usage
+          ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+          : undefined,
+        // Newer than this SDK's types: message.refusal holds the model's refusal instead of content
+        refused: choice?.finish_reason === 'content_filter' || Boolean((choice?.message as { refusal?: string | null } | undefined)?.refusal),
+      };
+    },
+  };
+}
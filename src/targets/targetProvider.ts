@@ -0,0 +1,28 @@
+import { ChatMessage, TargetConfig, TargetProviderName, TargetResponse } from '../types.ts';
+import { createAnthropicTarget } from './anthropicTarget.ts';
+import { createOpenAICompatibleTarget } from './openaiCompatibleTarget.ts';
+import { createMockTarget } from './mockTarget.ts';
+
+// A model under test. Implementations only turn a conversation into a reply;
+// timeouts, logging and scoring stay with the caller. Network-backed targets pass
+// the signal on to their SDK so a timed-out request is actually cancelled.
+// systemPrompt replaces TargetConfig.systemPrompt for one call, e.g. for a tournament creature.
+export interface TargetProvider {
+  name: TargetProviderName;
+  model: string;
+  generate(messages: ChatMessage[], signal?: AbortSignal, systemPrompt?: string): Promise<TargetResponse>;
+}
+
+// Build the target provider selected in config
+export function createTargetProvider(config: TargetConfig): TargetProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicTarget(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleTarget(config);
+    case 'mock':
+      return createMockTarget(config);
+    default:
+      throw new Error(`Unknown target provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,212 @@
+import { RateLimit, RateLimitConfig, RateLimitedProvider } from './types.ts';
+import { classifyApiError, headerValue, outsideTimeout } from './apiErrors.ts';
+
+const MINUTE_MS = 60000;
+
+// Rate-limit headers by budget, Anthropic's first, then OpenAI's
+const RATE_LIMIT_HEADERS = {
+  requests: {
+    limit: ['anthropic-ratelimit-requests-limit', 'x-ratelimit-limit-requests'],
+    remaining: ['anthropic-ratelimit-requests-remaining', 'x-ratelimit-remaining-requests'],
+  },
+  tokens: {
+    limit: ['anthropic-ratelimit-tokens-limit', 'x-ratelimit-limit-tokens'],
+    remaining: ['anthropic-ratelimit-tokens-remaining', 'x-ratelimit-remaining-tokens'],
+  },
+};
+
+// A per-minute budget, refilled continuously
+interface Bucket {
+  capacity: number;
+  available: number;
+}
+
+// Helper to read the first numeric header of a list
+function numericHeader(source: unknown, names: string[]): number | undefined {
+  for (const name of names) {
+    const raw = headerValue(source, name);
+    if (raw !== undefined && Number.isFinite(Number(raw))) {
+      return Number(raw);
+    }
+  }
+  return undefined;
+}
+
+// Helper to estimate the tokens in a text, at about 4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Rate limiter for one provider: requests and tokens per minute, each a budget refilled
+// continuously. Limits come from config and are tightened by the provider's rate-limit headers.
+// Nothing runs in the background, so an idle throttle never keeps the process alive.
+export class RequestThrottle {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private pausedUntil = 0;
+  private lastRefill = Date.now();
+  private disposed = false;
+  // Pending waits, woken early by dispose
+  private readonly waiting = new Map<ReturnType<typeof setTimeout>, () => void>();
+
+  constructor(public readonly provider: RateLimitedProvider, limits: RateLimit = {}) {
+    this.requests = limits.requestsPerMinute ? { capacity: limits.requestsPerMinute, available: limits.requestsPerMinute } : undefined;
+    this.tokens = limits.tokensPerMinute ? { capacity: limits.tokensPerMinute, available: limits.tokensPerMinute } : undefined;
+  }
+
+  // Wait until one request of about `tokens` tokens fits the budgets, then take it.
+  // Aborting the signal ends the wait without taking anything.
+  public async acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (this.disposed) {
+        throw new Error(`Rate limiter for ${this.provider} was disposed`);
+      }
+      signal?.throwIfAborted();
+      this.refill();
+      const wait = this.waitMs(tokens);
+      if (wait <= 0) {
+        if (this.requests) this.requests.available -= 1;
+        if (this.tokens) this.tokens.available -= Math.min(tokens, this.tokens.capacity);
+        return;
+      }
+      await this.sleep(wait, signal);
+    }
+  }
+
+  // Correct the token budget once a call's real usage is known
+  public settle(estimatedTokens: number, usedTokens: number): void {
+    if (this.tokens) {
+      this.tokens.available -= usedTokens - estimatedTokens;
+    }
+  }
+
+  // Adapt to the rate-limit headers of a response or an SDK error: the provider's limits
+  // cap the configured ones, and its remaining counts cap what is left in each budget
+  public observe(source: unknown): void {
+    this.refill();
+    this.requests = this.adapt(this.requests, source, RATE_LIMIT_HEADERS.requests);
+    this.tokens = this.adapt(this.tokens, source, RATE_LIMIT_HEADERS.tokens);
+  }
+
+  // Hold back every call to this provider for `ms`, e.g. after a 429 with retry-after
+  public pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  // Wake and fail every pending wait; later acquires fail too
+  public dispose(): void {
+    this.disposed = true;
+    this.waiting.forEach((wake, timer) => {
+      clearTimeout(timer);
+      wake();
+    });
+    this.waiting.clear();
+  }
+
+  private adapt(bucket: Bucket | undefined, source: unknown, headers: { limit: string[]; remaining: string[] }): Bucket | undefined {
+    const limit = numericHeader(source, headers.limit);
+    const remaining = numericHeader(source, headers.remaining);
+    let adapted = bucket;
+    if (limit !== undefined && limit > 0 && (!adapted || limit < adapted.capacity)) {
+      adapted = { capacity: limit, available: Math.min(adapted?.available ?? limit, limit) };
+    }
+    if (adapted && remaining !== undefined) {
+      adapted.available = Math.min(adapted.available, remaining);
+    }
+    return adapted;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    [this.requests, this.tokens].forEach((bucket) => {
+      if (bucket) {
+        bucket.available = Math.min(bucket.capacity, bucket.available + bucket.capacity * elapsed / MINUTE_MS);
+      }
+    });
+  }
+
+  // Helper to work out how long until a request of `tokens` tokens fits
+  private waitMs(tokens: number): number {
+    const deficit = (bucket: Bucket | undefined, needed: number) =>
+      bucket ? Math.max(0, needed - bucket.available) * MINUTE_MS / bucket.capacity : 0;
+    return Math.max(
+      this.pausedUntil - Date.now(),
+      deficit(this.requests, 1),
+      deficit(this.tokens, Math.min(tokens, this.tokens?.capacity ?? 0))
+    );
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.waiting.delete(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        this.waiting.delete(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, Math.ceil(ms));
+      this.waiting.set(timer, () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+// Active limits and throttles, one per provider, shared by every target, scorer and breeder call.
+// Set once per run with configureThrottles; released with disposeThrottles.
+let limits: RateLimitConfig = {};
+const throttles = new Map<RateLimitedProvider, RequestThrottle>();
+
+// Select the rate limits for all subsequent API calls
+export function configureThrottles(config: RateLimitConfig): void {
+  disposeThrottles();
+  limits = config;
+}
+
+// The shared throttle of a provider. Providers without configured limits still get one,
+// so they can adapt to rate-limit headers.
+export function throttleFor(provider: RateLimitedProvider): RequestThrottle {
+  if (!throttles.has(provider)) {
+    throttles.set(provider, new RequestThrottle(provider, limits[provider]));
+  }
+  return throttles.get(provider)!;
+}
+
+export function disposeThrottles(): void {
+  throttles.forEach(throttle => throttle.dispose());
+  throttles.clear();
+}
+
+// Run an SDK call under its provider's throttle: wait for budget, then learn from the response's
+// rate-limit headers and real token usage. A 429 pauses the whole provider for its retry-after.
+// Time spent waiting does not count towards the call's timeout.
+export async function withThrottle<T>(
+  provider: RateLimitedProvider,
+  estimatedTokens: number,
+  signal: AbortSignal | undefined,
+  call: () => Promise<{ data: T; response: unknown }>, // The SDK's .withResponse()
+  usedTokens: (data: T) => number | undefined = () => undefined
+): Promise<T> {
+  const throttle = throttleFor(provider);
+  await outsideTimeout(signal, () => throttle.acquire(estimatedTokens, signal));
+  try {
+    const { data, response } = await call();
+    throttle.observe(response);
+    throttle.settle(estimatedTokens, usedTokens(data) ?? estimatedTokens);
+    return data;
+  } catch (error) {
+    throttle.observe(error);
+    const apiError = classifyApiError(error);
+    if (apiError.kind === 'rate-limit' && apiError.retryAfterMs !== undefined) {
+      throttle.pause(apiError.retryAfterMs);
+    }
+    throw error;
+  }
+}
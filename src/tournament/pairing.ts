@@ -0,0 +1,55 @@
+import { PairingScheme, Prompt } from '../types.ts';
+import { Rng } from '../random.ts';
+
+// An attacker matched with a defender
+export interface Pairing {
+  attacker: Prompt;
+  defender: Prompt;
+}
+
+// Each attacker meets the next opponents defenders, starting at its own position and wrapping around
+function ringPairings(attackers: Prompt[], defenders: Prompt[], opponents: number): Pairing[] {
+  const count = Math.min(opponents, defenders.length);
+  return attackers.flatMap((attacker, i) =>
+    Array.from({ length: count }, (_, offset) => ({ attacker, defender: defenders[(i + offset) % defenders.length] }))
+  );
+}
+
+// Every attacker meets every defender
+function roundRobinPairings(attackers: Prompt[], defenders: Prompt[]): Pairing[] {
+  return attackers.flatMap(attacker => defenders.map(defender => ({ attacker, defender })));
+}
+
+// Each attacker meets opponents distinct defenders drawn at random
+function randomPairings(attackers: Prompt[], defenders: Prompt[], opponents: number, rng: Rng): Pairing[] {
+  const count = Math.min(opponents, defenders.length);
+  return attackers.flatMap((attacker) => {
+    // Partial Fisher-Yates shuffle: the first count entries are the draw
+    const pool = [...defenders];
+    for (let i = 0; i < count; i++) {
+      const j = i + rng.nextInt(pool.length - i);
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count).map(defender => ({ attacker, defender }));
+  });
+}
+
+// Match attackers with defenders under the configured scheme
+export function pairOpponents(
+  attackers: Prompt[],
+  defenders: Prompt[],
+  scheme: PairingScheme,
+  opponents: number,
+  rng: Rng
+): Pairing[] {
+  switch (scheme) {
+    case 'ring':
+      return ringPairings(attackers, defenders, opponents);
+    case 'round-robin':
+      return roundRobinPairings(attackers, defenders);
+    case 'random':
+      return randomPairings(attackers, defenders, opponents, rng);
+    default:
+      throw new Error(`Unknown pairing scheme: ${scheme}`);
+  }
+}
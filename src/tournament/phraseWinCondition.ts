@@ -0,0 +1,17 @@
+import { WinCondition } from './winCondition.ts';
+
+// The attacker wins when the defender's reply contains any of the phrases, ignoring case.
+// What the attacker says itself is not penalized, as in the original game.
+export function createPhraseWinCondition(phrases: string[]): WinCondition {
+  const lowered = phrases.map(phrase => phrase.toLowerCase());
+  return {
+    name: 'phrase',
+    description: `phrase (${phrases.map(phrase => `"${phrase}"`).join(', ')})`,
+    judge(_attack: string, response: string) {
+      const said = lowered.filter(phrase => response.toLowerCase().includes(phrase));
+      return said.length > 0
+        ? { attackerWon: true, reason: `said ${said.map(phrase => `"${phrase}"`).join(', ')}` }
+        : { attackerWon: false };
+    },
+  };
+}
@@ -0,0 +1,391 @@
+import pLimit from 'https://esm.sh/p-limit@6.2.0';
+import {
+  EvaluationError,
+  EvaluationStatus,
+  Prompt,
+  TokenUsage,
+  TournamentMatch,
+  TournamentRole
+} from '../types.ts';
+import { BREEDER_MODEL, breedTopPerformers, DescribeParent, safeApiCall, shortId } from '../breeding/breeder.ts';
+import { classifyApiError } from '../apiErrors.ts';
+import { addUsage, formatCost, usageCost } from '../costs.ts';
+import { evaluationFailed } from '../scoring/fitness.ts';
+import { createSelectionStrategy, SelectionStrategy } from '../selection/selectionStrategy.ts';
+import { withDiversityPreservation } from '../selection/diversityPreservation.ts';
+import { measureDiversity } from '../diversity.ts';
+import { writeCheckpoint } from '../checkpoint.ts';
+import { EvolutionState, rejectDuplicates, RunContext, setAsideFailed, stopForBudget } from '../moderation.ts';
+import { createWinCondition, WinCondition } from './winCondition.ts';
+import { pairOpponents } from './pairing.ts';
+
+// One message to the target as a creature, and its reply or why there is none
+interface Exchange {
+  text: string; // Empty when the call failed or the provider refused
+  status: EvaluationStatus;
+  usage?: TokenUsage;
+  error?: EvaluationError;
+}
+
+// Helper to send one message to the target with a creature's prompt as the system prompt.
+// A failed call becomes a failed exchange instead of throwing.
+async function exchange(ctx: RunContext, creature: Prompt, message: string, label: string): Promise<Exchange> {
+  try {
+    const response = await safeApiCall(
+      (signal) => ctx.target.generate([{ role: 'user', content: message }], signal, creature.content),
+      label,
+      'generation'
+    );
+    if (response.refused) {
+      console.log(`🚫 The provider refused to answer ${label}`);
+      return { text: '', status: 'refused-by-provider', usage: response.usage };
+    }
+    return { text: response.text, status: 'ok', usage: response.usage };
+  } catch (caught) {
+    const apiError = classifyApiError(caught);
+    console.error(`❌ ${label} failed [${apiError.kind}, ${apiError.retries} retries]: ${apiError.message}`);
+    return {
+      text: '',
+      status: apiError.kind === 'timeout' ? 'timeout' : 'error',
+      error: {
+        operation: 'generation',
+        kind: apiError.kind,
+        message: apiError.message,
+        httpStatus: apiError.status,
+        retries: apiError.retries,
+      },
+    };
+  }
+}
+
+// Helper to score a creature on its played matches: the share an attacker won, or the share a defender held.
+// A creature whose attack or every match failed gets that failure as its status.
+function scoreCreature(creature: Prompt, role: TournamentRole, matches: TournamentMatch[], attack?: Exchange): Prompt {
+  const own = matches.filter(m => (role === 'attacker' ? m.attackerId : m.defenderId) === creature.id);
+  const played = own.filter(m => !evaluationFailed(m.status));
+  const wins = played.filter(m => m.attackerWon === (role === 'attacker')).length;
+  const failedMatch = own.find(m => evaluationFailed(m.status));
+  const outcome = attack && attack.status !== 'ok'
+    ? { status: attack.status, error: attack.error }
+    : played.length === 0 && failedMatch
+      ? { status: failedMatch.status, error: failedMatch.error }
+      : { status: 'ok' as const, error: undefined };
+  return {
+    ...creature,
+    ...outcome,
+    score: played.length > 0 ? wins / played.length : 0,
+    // What the breeder sees of the creature: its attack, or its first reply
+    output: role === 'attacker' ? attack?.text ?? '' : played[0]?.response ?? '',
+  };
+}
+
+// Play one generation's tournament, ported from the original runTournament: every attacker writes
+// one attack from the opening message and uses it against each defender it is paired with.
+// Attackers whose attack failed or was refused play no matches.
+async function playTournament(
+  ctx: RunContext,
+  attackers: Prompt[],
+  defenders: Prompt[],
+  winCondition: WinCondition
+): Promise<{ attackers: Prompt[]; defenders: Prompt[]; matches: TournamentMatch[]; usage: TokenUsage }> {
+  const limit = pLimit(ctx.config.concurrencyLimit);
+  const { tournament } = ctx.config;
+
+  const attacks = await Promise.all(attackers.map(attacker => limit(() =>
+    exchange(ctx, attacker, tournament.openingMessage, `computeAttack for attacker ${shortId(attacker.id)}`)
+  )));
+  const attackById = new Map(attackers.map((attacker, i) => [attacker.id, attacks[i]]));
+  const armed = attackers.filter((_, i) => attacks[i].status === 'ok');
+
+  const pairings = pairOpponents(armed, defenders, tournament.pairing, tournament.opponents, ctx.rng);
+  const played = await Promise.all(pairings.map(({ attacker, defender }) => limit(async () => {
+    const attack = attackById.get(attacker.id)!.text;
+    const reply = await exchange(
+      ctx,
+      defender,
+      attack,
+      `runConversation for attacker ${shortId(attacker.id)} against defender ${shortId(defender.id)}`
+    );
+    // Failed matches count for neither side; a refused reply is judged as an empty one
+    const verdict = evaluationFailed(reply.status) ? { attackerWon: false } : winCondition.judge(attack, reply.text);
+    const match: TournamentMatch = {
+      attackerId: attacker.id,
+      defenderId: defender.id,
+      attack,
+      response: reply.text,
+      status: reply.status,
+      error: reply.error,
+      ...verdict,
+    };
+    return { match, usage: reply.usage };
+  })));
+  const matches = played.map(({ match }) => match);
+
+  matches.filter(m => !evaluationFailed(m.status)).forEach((m) => {
+    const outcome = m.attackerWon ? `attacker won${m.reason ? ` (${m.reason})` : ''}` : 'defender held';
+    console.log(`⚔️ ${shortId(m.attackerId)} vs ${shortId(m.defenderId)}: ${outcome}`);
+  });
+
+  return {
+    attackers: attackers.map(attacker => scoreCreature(attacker, 'attacker', matches, attackById.get(attacker.id))),
+    defenders: defenders.map(defender => scoreCreature(defender, 'defender', matches)),
+    matches,
+    usage: addUsage(...attacks.map(a => a.usage), ...played.map(p => p.usage)),
+  };
+}
+
+// Helper to quote one match for the breeder
+function quoteMatch(match: TournamentMatch): string {
+  return `- Attack: "${match.attack}" → reply: "${match.response}"`;
+}
+
+// Helper to describe a creature to the breeder LLM, as the original breedPrompts did: the game's goal
+// for its role, and how it did in this generation's matches
+function describeCreature(role: TournamentRole, matches: TournamentMatch[], phrases: string[]): DescribeParent {
+  const quoted = phrases.map(phrase => `"${phrase}"`).join(' or ');
+  return (parent, label) => {
+    const prefix = label ? `PARENT ${label} ` : 'PARENT ';
+    const played = matches.filter(m =>
+      (role === 'attacker' ? m.attackerId : m.defenderId) === parent.id && !evaluationFailed(m.status)
+    );
+    const won = played.filter(m => m.attackerWon === (role === 'attacker'));
+    const lost = played.filter(m => !won.includes(m));
+    if (role === 'attacker') {
+      return `
+    ${prefix}ROLE: An attacker in a conversation game between creatures. Its prompt must make the other creature say ${quoted} without saying those phrases itself.
+    
+    ${prefix}PROMPT: "${parent.content}"
+    
+    ${prefix}ATTACK: "${parent.output}"
+    
+    ${prefix}RESULTS: won ${won.length} of ${played.length} matches (score ${parent.score.toFixed(4)})
+    ${won.length > 0 ? `Successful attacks that made others say the target phrases:\n    ${won.map(quoteMatch).join('\n    ')}` : 'No successful attacks recorded.'}
+  `;
+    }
+    return `
+    ${prefix}ROLE: A defender in a conversation game between creatures. Its prompt must keep it from saying ${quoted}, whatever the other creature says.
+    
+    ${prefix}PROMPT: "${parent.content}"
+    
+    ${prefix}RESULTS: held ${won.length} of ${played.length} matches (score ${parent.score.toFixed(4)})
+    ${[
+      won.length > 0 ? `Attacks it held against:\n    ${won.map(quoteMatch).join('\n    ')}` : 'No matches held.',
+      ...(lost.length > 0 ? [`Attacks that made it say a target phrase:\n    ${lost.map(quoteMatch).join('\n    ')}`] : []),
+    ].join('\n    ')}
+  `;
+  };
+}
+
+// Helper to breed one population and choose its survivors. Children have no score until
+// they play in the next generation's tournament; survivors make room for them.
+async function breedPopulation(
+  ctx: RunContext,
+  label: string,
+  prompts: Prompt[],
+  generation: number,
+  parentSelection: SelectionStrategy,
+  survivorSelection: SelectionStrategy,
+  failedParentIds: string[],
+  describeParent: DescribeParent
+): Promise<{ population: Prompt[]; candidates: Prompt[]; survivors: Prompt[]; children: Prompt[]; removed: Prompt[]; usage: TokenUsage }> {
+  const candidates = parentSelection.select(
+    prompts,
+    Math.min(ctx.config.breeding.maxParentAttempts, prompts.length),
+    ctx.rng
+  );
+  console.log(`\n🎯 Parent candidates among ${label} (${parentSelection.description}): ${candidates.map(p => shortId(p.id)).join(', ')}`);
+
+  console.log(`\n🧬 Breeding ${label}...`);
+  const breedingResult = await breedTopPerformers(candidates, generation, ctx.config.breeding, ctx.storage, ctx.rng, describeParent);
+  if (breedingResult.failedParentIds.length > 0) {
+    console.log(`\n🗑️ Removing ${breedingResult.failedParentIds.length} ${label} that failed to breed: ${breedingResult.failedParentIds.map(shortId).join(', ')}`);
+    failedParentIds.push(...breedingResult.failedParentIds);
+  }
+  const remaining = prompts.filter(p => !breedingResult.failedParentIds.includes(p.id));
+
+  const { unique: children, duplicates } = rejectDuplicates(breedingResult.allChildren, remaining);
+  duplicates.forEach((child) => {
+    console.log(`♻️ Rejected duplicate child ${shortId(child.id)} (bred from ${child.parentIds.map(shortId).join(', ')})`);
+  });
+
+  const survivors = survivorSelection.select(remaining, Math.max(ctx.config.populationSize - children.length, 0), ctx.rng);
+  console.log(`\n🎯 Surviving ${label} (${survivorSelection.description}): ${survivors.map(p => shortId(p.id)).join(', ') || 'None'}`);
+
+  return {
+    population: [...survivors, ...children],
+    candidates,
+    survivors,
+    children,
+    removed: prompts.filter(p => !survivors.includes(p)),
+    usage: breedingResult.usage,
+  };
+}
+
+// Helper to log a population's tournament scores, best first
+function logScores(label: string, prompts: Prompt[], matches: TournamentMatch[], role: TournamentRole): void {
+  console.log(`\n🔍 ${label}:`);
+  [...prompts].sort((a, b) => b.score - a.score).forEach((p) => {
+    const played = matches.filter(m => (role === 'attacker' ? m.attackerId : m.defenderId) === p.id && !evaluationFailed(m.status));
+    const wins = played.filter(m => m.attackerWon === (role === 'attacker')).length;
+    console.log(`ID ${shortId(p.id)}: ${p.score.toFixed(4)} (${wins}/${played.length} ${role === 'attacker' ? 'won' : 'held'}${p.status === 'refused-by-provider' ? ', refused by provider' : ''})`);
+  });
+}
+
+// Co-evolve attackers (EvolutionState.population) and defenders until totalGenerations have completed,
+// until the next generation would likely exceed cost.budgetUsd, or until a generation fails; returns the final state.
+// Each generation plays a tournament, then breeds both populations with the shared breeder and
+// selection strategies. The hall of fame is not kept: scores only compare within a generation.
+export async function evolveTournament(
+  ctx: RunContext,
+  initialState: EvolutionState,
+  totalGenerations: number
+): Promise<EvolutionState> {
+  if (!initialState.defenders) {
+    throw new Error('Tournament mode needs both populations; resume tournament runs from their checkpoint');
+  }
+  let attackers = initialState.population;
+  let defenders = initialState.defenders;
+  const failedParentIds = [...initialState.failedParentIds];
+  const { prices, budgetUsd } = ctx.config.cost;
+  let runCost = initialState.cost;
+  let completedGeneration = initialState.generation;
+  let overBudget = false;
+  let failure: string | undefined;
+  // The latest populations that played; bred children have no score until they do
+  let ranked: { generation: number; attackers: Prompt[]; defenders: Prompt[] } | undefined;
+  const winCondition = createWinCondition(ctx.config.tournament);
+  const parentSelection = createSelectionStrategy(ctx.config.selection.parentStrategy, ctx.config.selection);
+  const survivorSelection = withDiversityPreservation(
+    createSelectionStrategy(ctx.config.selection.survivorStrategy, ctx.config.selection),
+    ctx.config.diversity
+  );
+  const { pairing, opponents } = ctx.config.tournament;
+  console.log(`⚔️ Tournament: ${pairing}${pairing === 'round-robin' ? '' : ` with ${opponents} opponents`} pairing, won by ${winCondition.description}`);
+  console.log(`🎯 Selection: parents by ${parentSelection.description}, survivors by ${survivorSelection.description}`);
+
+  // Seeds are born before the first generation
+  if (initialState.generation === 0) {
+    await ctx.storage.writeLineage([...attackers, ...defenders]);
+  }
+
+  for (let gen = initialState.generation; gen < totalGenerations; gen++) {
+    if (stopForBudget(gen, runCost, budgetUsd)) {
+      overBudget = true;
+      break;
+    }
+
+    console.log(`\n===================== GENERATION ${gen + 1} =====================`);
+    // Keep copies of both populations to fall back on if the generation fails
+    const before = {
+      attackers: attackers.map(p => ({ ...p })),
+      defenders: defenders.map(p => ({ ...p })),
+      ranked,
+      failedParents: failedParentIds.length,
+      runCost,
+    };
+    try {
+      const played = await playTournament(ctx, attackers, defenders, winCondition);
+      const evaluationCost = usageCost(ctx.target.model, played.usage, prices);
+      runCost += evaluationCost;
+
+      // Write results to storage, failed creatures included
+      await ctx.storage.writeTournament(gen + 1, played.attackers, played.defenders, played.matches);
+      attackers = setAsideFailed(played.attackers, 'attackers');
+      defenders = setAsideFailed(played.defenders, 'defenders');
+      if (attackers.length === 0 || defenders.length === 0) {
+        throw new Error(`Every ${attackers.length === 0 ? 'attacker' : 'defender'} failed; nothing to select from`);
+      }
+      logScores('Attackers', attackers, played.matches, 'attacker');
+      logScores('Defenders', defenders, played.matches, 'defender');
+      ranked = { generation: gen + 1, attackers, defenders };
+
+      const { phrases } = ctx.config.tournament;
+      const bredAttackers = await breedPopulation(
+        ctx, 'attackers', attackers, gen + 1, parentSelection, survivorSelection, failedParentIds,
+        describeCreature('attacker', played.matches, phrases)
+      );
+      const bredDefenders = await breedPopulation(
+        ctx, 'defenders', defenders, gen + 1, parentSelection, survivorSelection, failedParentIds,
+        describeCreature('defender', played.matches, phrases)
+      );
+      const breedingUsage = addUsage(bredAttackers.usage, bredDefenders.usage);
+      const breedingCost = usageCost(BREEDER_MODEL, breedingUsage, prices);
+      runCost += breedingCost;
+
+      // Selections are recorded per population; the other records are shared and tournament.csv tells them apart
+      for (const [role, bred] of [['attacker', bredAttackers], ['defender', bredDefenders]] as const) {
+        await ctx.storage.writeSelection(gen + 1, `${role}-parents`, parentSelection.description, bred.candidates);
+        await ctx.storage.writeSelection(gen + 1, `${role}-survivors`, survivorSelection.description, bred.survivors);
+      }
+      await ctx.storage.writeLineage([...bredAttackers.children, ...bredDefenders.children]);
+      attackers = bredAttackers.population;
+      defenders = bredDefenders.population;
+
+      console.log(`\n👥 Populations at end of Generation ${gen + 1}:`);
+      await ctx.storage.writePopulation(gen + 1, [...attackers, ...defenders]);
+      const attackerDiversity = measureDiversity(attackers, ctx.config.diversity);
+      const defenderDiversity = measureDiversity(defenders, ctx.config.diversity);
+      await ctx.storage.writeDiversity(gen + 1, attackerDiversity, 'attacker');
+      await ctx.storage.writeDiversity(gen + 1, defenderDiversity, 'defender');
+      await ctx.storage.writeCosts(gen + 1, {
+        evaluationUsage: played.usage,
+        breedingUsage,
+        evaluationCost,
+        breedingCost,
+        runCost,
+      });
+      await writeCheckpoint(ctx.paths.checkpoint, {
+        generation: gen + 1,
+        population: attackers,
+        defenders,
+        hallOfFame: [],
+        failedParentIds,
+        seed: ctx.rng.seed,
+        rngState: ctx.rng.state(),
+        cost: runCost,
+      });
+      completedGeneration = gen + 1;
+      await ctx.onGenerationEnd?.(gen + 1, attackers, runCost);
+
+      // Print a summary of the current generation
+      [
+        ['Attackers', attackers, bredAttackers, attackerDiversity] as const,
+        ['Defenders', defenders, bredDefenders, defenderDiversity] as const,
+      ].forEach(([label, population, bred, diversity]) => {
+        console.log(`${label}: ${population.length}, diversity ${diversity.meanDistance.toFixed(4)} in ${diversity.niches} niches`);
+        console.log(`  New children: ${bred.children.map(c => shortId(c.id)).join(', ') || 'None'}`);
+        console.log(`  Removed: ${bred.removed.map(p => shortId(p.id)).join(', ') || 'None'}`);
+      });
+      console.log(`💰 Cost: matches ${formatCost(evaluationCost)} (${played.usage.inputTokens} in, ${played.usage.outputTokens} out), breeding ${formatCost(breedingCost)} (${breedingUsage.inputTokens} in, ${breedingUsage.outputTokens} out), run ${formatCost(runCost)}${budgetUsd !== undefined ? ` of ${formatCost(budgetUsd)}` : ''}`);
+    } catch (error) {
+      console.error(`Generation ${gen + 1} failed:`, error);
+      console.log(`Stopping at generation ${completedGeneration}, the last one completed; rows already written for generation ${gen + 1} are incomplete.`);
+      ({ attackers, defenders, ranked, runCost } = before);
+      failedParentIds.splice(before.failedParents);
+      failure = `Generation ${gen + 1} failed: ${error instanceof Error ? error.message : String(error)}`;
+      break;
+    }
+  }
+
+  console.log(failure ? '\n🛑 Tournament stopped early' : '\n🏁 Tournament complete!');
+  if (ranked) {
+    const { generation } = ranked;
+    [['attackers', ranked.attackers] as const, ['defenders', ranked.defenders] as const].forEach(([label, population]) => {
+      console.log(`Top ${label} of generation ${generation}:`);
+      [...population].sort((a, b) => b.score - a.score).slice(0, 3).forEach((p, i) => {
+        console.log(`${i + 1}. ID ${shortId(p.id)}: Score ${p.score.toFixed(4)}\nPrompt: "${p.content}"`);
+      });
+    });
+  }
+
+  return {
+    generation: overBudget || failure ? completedGeneration : Math.max(totalGenerations, initialState.generation),
+    population: attackers,
+    defenders,
+    hallOfFame: [],
+    failedParentIds,
+    cost: runCost,
+    overBudget,
+    failure,
+  };
+}
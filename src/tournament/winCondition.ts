@@ -0,0 +1,20 @@
+import { MatchVerdict, TournamentConfig, WinConditionName } from '../types.ts';
+import { createPhraseWinCondition } from './phraseWinCondition.ts';
+
+// Decides a tournament match from the attack and the defender's reply.
+// Failed matches never reach it; a refused reply reaches it as an empty response.
+export interface WinCondition {
+  name: WinConditionName;
+  description: string; // Name plus settings, for logs
+  judge(attack: string, response: string): MatchVerdict;
+}
+
+// Build the win condition selected in config
+export function createWinCondition(config: TournamentConfig): WinCondition {
+  switch (config.winCondition) {
+    case 'phrase':
+      return createPhraseWinCondition(config.phrases);
+    default:
+      throw new Error(`Unknown win condition: ${config.winCondition}`);
+  }
+}
@@ -13,16 +13,67 @@ export interface CategoryScores {
   [key: string]: number; // Allow for any additional categories
 }
 
-export interface Prompt {
+// Local mutation operators, see src/breeding/mutationOperators.ts
+export type MutationOperatorName =
+  | 'shuffle-sentences'
+  | 'splice-sentences'
+  | 'insert-framing'
+  | 'delete-segment'
+  | 'synonym-swap';
+
+// How a prompt came into being. Runs from before local operators also recorded 'fallback'.
+export type PromptOperator = 'seed' | 'llm-breed' | 'llm-crossover' | MutationOperatorName;
+
+export interface Lineage {
+  parentIds: string[]; // Empty for seeds
+  birthGeneration: number; // Generation that created the prompt; 0 for seeds
+  operator: PromptOperator;
+}
+
+// How an evaluation ended. error and timeout mean an API call failed, so there is nothing to score;
+// refused-by-provider means the provider declined to answer, which is scored as an empty reply.
+export type EvaluationStatus = 'ok' | 'error' | 'timeout' | 'refused-by-provider';
+
+// Why an evaluation failed
+export interface EvaluationError {
+  operation: ApiOperation; // The call that failed: generation (target), moderation (scorer) or breeding (a follow-up turn)
+  kind: ApiErrorKind;
+  message: string;
+  httpStatus?: number;
+  retries: number;
+}
+
+// One draw from the target for a prompt, scored on its own
+export interface EvaluationSample {
+  status: EvaluationStatus;
+  output: string; // Empty when the sample failed
+  categoryScores: CategoryScores;
+  flagged: boolean;
+  score: number; // Fitness of this sample alone
+  error?: EvaluationError; // Set when status is error or timeout; such samples are never cached
+  cached?: boolean; // Reused from the evaluation cache instead of drawn
+  usage?: TokenUsage; // Target tokens of this draw; none for cached samples
+  cost?: number; // USD, per CostConfig.prices; includes follow-up turns written by the breeder model
+  transcript?: ChatMessage[]; // The whole conversation, in multi-turn modes
+  scoredTurns?: number[]; // Indexes into transcript of the replies that were scored
+}
+
+export interface Prompt extends Lineage {
   id: string;
   content: string;
-  score: number;
-  output?: string;
-  categoryScores?: CategoryScores;
-  flagged?: boolean;
+  score: number; // Sample fitness combined per SamplingConfig.aggregation, over the samples that didn't fail
+  status?: EvaluationStatus; // ok when any sample was; missing before the first evaluation
+  error?: EvaluationError; // The first sample's error when every sample failed
+  output?: string; // The first successful sample's output
+  categoryScores?: CategoryScores; // Mean over successful samples
+  flagged?: boolean; // True when at least half the successful samples were flagged
+  samples?: EvaluationSample[]; // Every draw from the latest evaluation, failed ones included
+  scoreVariance?: number; // Sample variance of the successful samples' fitness; 0 for a single sample
+  usage?: TokenUsage; // Target tokens of the latest evaluation, over all samples
+  cost?: number; // USD of the latest evaluation
 }
 
-export interface Creature {
+export interface Creature extends Partial<Lineage> {
   id: string;
   prompt: string;
 }
@@ -33,3 +84,332 @@ export interface BreedingAttemptResult {
   parentId: string;
   failedParentIds: string[]; // IDs of parents that failed to breed
 }
+
+export type TargetProviderName = 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Tokens reported by the provider for one or more calls
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TargetResponse {
+  text: string;
+  usage?: TokenUsage; // Missing for targets that don't report it, such as mock
+  refused?: boolean; // The provider declined to answer, e.g. a content filter or a refusal stop reason
+}
+
+export type ScorerName = 'openai-moderation' | 'rule-based';
+
+// Raw scorer output. Fitness is derived from it by the fitness config, see src/scoring/fitness.ts
+export interface ScoreResult {
+  categoryScores: CategoryScores;
+  flagged: boolean;
+}
+
+// Rules for the offline scorer. Each rule scores 0..1 into its category.
+export type ScoringRule =
+  | { category: string; type: 'regex'; pattern: string; flags?: string; weight?: number }
+  | { category: string; type: 'keywords'; keywords: string[]; weight?: number }
+  | { category: string; type: 'canary'; text: string; weight?: number };
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export type StorageKind = 'csv' | 'sqlite';
+
+export type CachePolicy = 'off' | 'reuse' | 'top-up' | 'refresh';
+
+export interface TargetConfig {
+  provider: TargetProviderName;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  systemPrompt: string;
+  baseUrl: string; // Only used by the openai-compatible provider
+}
+
+export interface ScoringConfig {
+  scorer: ScorerName;
+  moderationModel: string; // Only used by the openai-moderation scorer
+  rules: ScoringRule[]; // Only used by the rule-based scorer
+  ruleFlagThreshold: number;
+}
+
+export type FitnessAggregation = 'sum' | 'max' | 'mean';
+
+export interface FitnessConfig {
+  aggregation: FitnessAggregation; // How weighted category scores combine
+  categoryWeights: Record<string, number>; // Unlisted categories get defaultWeight
+  defaultWeight: number;
+  flaggedBonus: number; // Added when the output was flagged
+  promptLengthPenalty: number; // Subtracted per 1000 characters of prompt
+  outputLengthPenalty: number; // Subtracted per 1000 characters of output, a stand-in for response cost
+}
+
+export type SampleAggregation = 'mean' | 'median' | 'lcb';
+
+export interface SamplingConfig {
+  samplesPerPrompt: number; // Target draws per evaluation
+  aggregation: SampleAggregation; // lcb = mean minus lowerBoundZ standard errors
+  lowerBoundZ: number; // Only used by lcb
+}
+
+// How a prompt is put to the target: as one message, as a script of user turns, or as the
+// opening turn of a conversation whose later user turns are written by the breeder model
+export type ConversationMode = 'single' | 'scripted' | 'generated';
+
+// Which replies of a multi-turn conversation are scored
+export type TurnScoring = 'worst' | 'final' | 'transcript';
+
+export interface ConversationConfig {
+  mode: ConversationMode;
+  turnSeparator: string; // Only used by scripted: splits a prompt into its user turns
+  turns: number; // Only used by generated: user turns per conversation, the prompt included
+  scoring: TurnScoring; // worst = the reply with the highest fitness; transcript = every reply scored as one text
+}
+
+// What a run evolves: prompts against the target under the scorer, or attacker and defender
+// prompts against each other in a tournament
+export type EvolutionMode = 'moderation' | 'tournament';
+
+// How attackers are matched with defenders each generation. ring matches attacker i with the
+// next opponents defenders from position i; random draws opponents defenders per attacker.
+export type PairingScheme = 'ring' | 'round-robin' | 'random';
+
+export type WinConditionName = 'phrase';
+
+export type TournamentRole = 'attacker' | 'defender';
+
+export interface TournamentConfig {
+  pairing: PairingScheme;
+  opponents: number; // Only used by ring and random: defenders each attacker meets
+  winCondition: WinConditionName;
+  phrases: string[]; // Only used by phrase: the attacker wins when the defender says one, ignoring case
+  openingMessage: string; // Sent to each attacker to get its attack
+  attackerPrompts: string[]; // Seeds of the attacker population
+  defenderPrompts: string[]; // Seeds of the defender population
+}
+
+// A win condition's decision on one match
+export interface MatchVerdict {
+  attackerWon: boolean;
+  reason?: string; // What decided it, e.g. the phrase the defender said
+}
+
+// One attacker's attack on one defender. Both are system prompts for the target model:
+// the attacker writes the attack, the defender replies to it.
+export interface TournamentMatch extends MatchVerdict {
+  attackerId: string;
+  defenderId: string;
+  attack: string;
+  response: string; // Empty when the match failed or the provider refused to answer
+  status: EvaluationStatus; // Failed matches count for neither side
+  error?: EvaluationError;
+}
+
+export interface BreedingConfig {
+  maxBreedingAttempts: number;
+  maxParentAttempts: number;
+  numBreeders: number;
+  maxChildrenPerParent: number;
+  crossoverRate: number; // Share of children bred by crossing two parents rather than mutating one, 0..1
+  localMutationRate: number; // Share of mutations done by local operators instead of the breeder LLM, 0..1
+  mutationOperators: Partial<Record<MutationOperatorName, number>>; // Weights; unlisted operators are off
+}
+
+export type SelectionStrategyName =
+  | 'truncation'
+  | 'tournament'
+  | 'fitness-proportionate'
+  | 'rank'
+  | 'elitist-random'
+  | 'nsga2'
+  | 'nsga2-tournament';
+
+export type ObjectiveDirection = 'maximize' | 'minimize';
+
+// One axis of multi-objective selection. direction defaults to maximize,
+// except length and refusal, which default to minimize.
+export type Objective =
+  | { type: 'fitness'; direction?: ObjectiveDirection } // Prompt.score
+  | { type: 'category'; category: string; direction?: ObjectiveDirection } // One category score
+  | { type: 'flagged'; direction?: ObjectiveDirection } // 1 if the output was flagged
+  | { type: 'length'; direction?: ObjectiveDirection } // Prompt length in characters
+  | { type: 'refusal'; direction?: ObjectiveDirection }; // 1 if the target refused
+
+export interface SelectionConfig {
+  parentStrategy: SelectionStrategyName;
+  survivorStrategy: SelectionStrategyName;
+  tournamentSize: number; // Only used by tournament
+  eliteCount: number; // Only used by elitist-random
+  objectives: Objective[]; // Only used by nsga2 and nsga2-tournament
+}
+
+export type SimilarityMeasureName = 'ngram-jaccard' | 'tfidf-cosine';
+
+export type DiversityPreservationName = 'none' | 'sharing' | 'crowding';
+
+export interface DiversityConfig {
+  similarity: SimilarityMeasureName;
+  ngramSize: number; // Only used by ngram-jaccard
+  preservation: DiversityPreservationName; // Applied to survivor selection
+  nicheThreshold: number; // Similarity at or above which two prompts share a niche, 0..1
+  sharingAlpha: number; // Shape of the sharing function; only used by sharing
+}
+
+// Population diversity at the end of a generation. Distance is 1 - similarity.
+export interface DiversityMetrics {
+  similarity: SimilarityMeasureName;
+  populationSize: number;
+  meanDistance: number;
+  minDistance: number;
+  niches: number; // Groups of prompts within nicheThreshold of each other
+}
+
+// A member of a generation's Pareto front, with its raw objective values by objective name
+export interface ParetoFrontEntry {
+  prompt: Prompt;
+  objectives: Record<string, number>;
+  crowdingDistance: number;
+}
+
+export interface CacheConfig {
+  policy: CachePolicy;
+  path: string; // JSONL file shared by every run that points at it
+  topUpSamples: number; // Only used by top-up: fresh samples added per evaluation
+  maxSamples: number; // Only used by top-up: samples at which topping up stops
+}
+
+// Providers with their own rate limits. The target and the breeder share 'anthropic' when both use it;
+// 'openai' is the moderation API and 'openai-compatible' the configured target server.
+export type RateLimitedProvider = 'anthropic' | 'openai' | 'openai-compatible';
+
+export interface RateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Prompt plus completion tokens, estimated before each call and corrected after
+}
+
+export type RateLimitConfig = Partial<Record<RateLimitedProvider, RateLimit>>;
+
+// USD per million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface CostConfig {
+  prices: Record<string, ModelPrice>; // By model name
+  budgetUsd?: number; // The run stops at the first generation boundary where the next generation would exceed it
+}
+
+// Tokens and cost of one generation, split between evaluation (target calls) and breeding
+export interface GenerationCost {
+  evaluationUsage: TokenUsage;
+  breedingUsage: TokenUsage;
+  evaluationCost: number;
+  breedingCost: number;
+  runCost: number; // Total spent by the run up to and including this generation
+}
+
+export interface RetryConfig {
+  maxRetries: number; // Retries after the first attempt, for retryable errors only
+  baseDelayMs: number; // Backoff before the first retry; doubles with each retry
+  maxDelayMs: number; // Cap on the backoff. A server's retry-after is honored in full
+  jitter: number; // 0..1: share of each backoff that is randomized
+  failedEvaluationRounds: number; // Rounds of redrawing failed samples before selection
+}
+
+// API calls with their own timeout: target generation, moderation scoring and breeding
+export type ApiOperation = 'generation' | 'moderation' | 'breeding';
+
+// Per-operation timeouts. A call that runs over is aborted, not just abandoned.
+export interface TimeoutConfig {
+  generationMs: number;
+  moderationMs: number;
+  breedingMs: number;
+}
+
+// Classes of failed API calls. rate-limit, overloaded, server, timeout and network are retryable.
+export type ApiErrorKind =
+  | 'rate-limit' // 429
+  | 'overloaded' // 529, or Anthropic's overloaded_error
+  | 'server' // Other 5xx
+  | 'timeout' // No response in time
+  | 'network' // Connection failed
+  | 'auth' // 401, 403
+  | 'validation' // Other 4xx: the request itself is wrong
+  | 'unknown';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  path: string;
+}
+
+export interface ExperimentConfig {
+  populationSize: number;
+  concurrencyLimit: number;
+  hallOfFameSize: number;
+  mode: EvolutionMode;
+  target: TargetConfig;
+  scoring: ScoringConfig;
+  fitness: FitnessConfig;
+  sampling: SamplingConfig;
+  conversation: ConversationConfig;
+  tournament: TournamentConfig;
+  breeding: BreedingConfig;
+  selection: SelectionConfig;
+  diversity: DiversityConfig;
+  cache: CacheConfig;
+  retry: RetryConfig;
+  timeouts: TimeoutConfig;
+  rateLimits: RateLimitConfig;
+  cost: CostConfig;
+  cassette: CassetteConfig;
+  storage: StorageKind;
+  initialPrompts: string[];
+}
+
+export interface OutputPaths {
+  population: string;
+  moderation: string;
+  outputs: string;
+  breeding: string;
+  breedingFailures: string;
+  lineage: string;
+  selection: string;
+  diversity: string;
+  paretoFront: string;
+  samples: string;
+  costs: string;
+  transcripts: string;
+  tournament: string;
+  config: string;
+  checkpoint: string;
+}
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'interrupted' | 'over-budget';
+
+export interface RunManifest {
+  runId: string;
+  status: RunStatus;
+  startedAt: string;
+  endedAt?: string;
+  gitCommit: string | null;
+  gitDirty: boolean;
+  seed: number;
+  models: {
+    target: { provider: TargetProviderName; model: string };
+    scorer: { name: ScorerName; model?: string };
+    breeder: string;
+  };
+  config: ExperimentConfig;
+  generationsCompleted: number;
+  costUsd?: number; // Spent so far; missing for runs from before cost accounting
+  resumes: { at: string; fromGeneration: number; seed: number }[];
+  error?: string;
+}
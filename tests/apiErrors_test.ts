@@ -0,0 +1,47 @@
+import { assertEquals, assertStrictEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { ApiCallError, classifyApiError } from '../src/apiErrors.ts';
+
+// Helper to fake an SDK error with an HTTP status and response headers
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`${status} status code`), { status, headers });
+}
+
+Deno.test('classifyApiError tells error classes from HTTP statuses', () => {
+  const cases: [number, string, boolean][] = [
+    [429, 'rate-limit', true],
+    [529, 'overloaded', true],
+    [408, 'timeout', true],
+    [500, 'server', true],
+    [503, 'server', true],
+    [401, 'auth', false],
+    [403, 'auth', false],
+    [400, 'validation', false],
+    [422, 'validation', false],
+  ];
+  cases.forEach(([status, kind, retryable]) => {
+    const error = classifyApiError(httpError(status));
+    assertEquals([error.kind, error.retryable, error.status], [kind, retryable, status]);
+  });
+});
+
+Deno.test('classifyApiError reads how long the server asked to wait', () => {
+  assertEquals(classifyApiError(httpError(429, { 'retry-after-ms': '1500' })).retryAfterMs, 1500);
+  assertEquals(classifyApiError(httpError(429, { 'retry-after': '2' })).retryAfterMs, 2000);
+  assertEquals(classifyApiError(httpError(429, new Headers({ 'retry-after': '3' }) as never)).retryAfterMs, 3000);
+  assertEquals(classifyApiError(httpError(429)).retryAfterMs, undefined);
+});
+
+Deno.test('classifyApiError tells timeouts and network errors without a status', () => {
+  const abort = new Error('Request was aborted.');
+  abort.name = 'AbortError';
+  assertEquals(classifyApiError(abort).kind, 'timeout');
+  assertEquals(classifyApiError(new Error('generation timed out after 30000ms')).kind, 'timeout');
+  assertEquals(classifyApiError(new TypeError('error sending request: fetch failed')).kind, 'network');
+  assertEquals(classifyApiError(new Error('Overloaded')).kind, 'overloaded');
+  assertEquals(classifyApiError('something odd').kind, 'unknown');
+});
+
+Deno.test('classifyApiError returns classified errors as they are', () => {
+  const error = new ApiCallError('recorded', 'server', 502, undefined, 2);
+  assertStrictEquals(classifyApiError(error), error);
+});
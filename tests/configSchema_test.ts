@@ -0,0 +1,51 @@
+import { assert, assertEquals, assertInstanceOf, assertThrows } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { ConfigError, resolveConfig } from '../src/configSchema.ts';
+import { DEFAULT_CONFIG } from '../src/config.ts';
+
+// Helper to resolve a config that must be rejected, returning its issues
+function issuesOf(raw: unknown): string[] {
+  const error = assertThrows(() => resolveConfig(raw, DEFAULT_CONFIG, 'test.yaml'), ConfigError);
+  assertInstanceOf(error, ConfigError);
+  return error.issues;
+}
+
+Deno.test('resolveConfig fills in defaults key by key within a section', () => {
+  const { config, warnings } = resolveConfig({ populationSize: 6, breeding: { numBreeders: 3 } }, DEFAULT_CONFIG, 'test.yaml');
+  assertEquals(config.populationSize, 6);
+  assertEquals(config.breeding.numBreeders, 3);
+  assertEquals(config.breeding.maxBreedingAttempts, DEFAULT_CONFIG.breeding.maxBreedingAttempts);
+  assertEquals(config.target, DEFAULT_CONFIG.target);
+  assertEquals(warnings, []);
+});
+
+Deno.test('resolveConfig rejects unknown keys, wrong types and out-of-range values together', () => {
+  const issues = issuesOf({ populationSize: 0, colour: 'blue', target: { provider: 'carrier-pigeon' }, breeding: { maxBreedingAttempts: 'many' } });
+  assertEquals(issues.length, 4);
+  assert(issues.some(issue => issue.startsWith('populationSize:')));
+  assert(issues.some(issue => issue.startsWith('colour: unknown key')));
+  assert(issues.some(issue => issue.startsWith('target.provider: expected one of')));
+  assert(issues.some(issue => issue.startsWith('breeding.maxBreedingAttempts:')));
+});
+
+Deno.test('resolveConfig rejects settings that contradict each other', () => {
+  assertEquals(issuesOf({ populationSize: 2, breeding: { numBreeders: 3 } }), [
+    'breeding.numBreeders (3) cannot exceed populationSize (2)',
+  ]);
+  assertEquals(issuesOf({ selection: { parentStrategy: 'nsga2-tournament', survivorStrategy: 'nsga2', objectives: [] } }), [
+    'selection.objectives must list at least one objective when an nsga2 strategy is used',
+  ]);
+  assertEquals(issuesOf({ mode: 'tournament', tournament: { phrases: ['i love you', ''] } }), [
+    'tournament.phrases must not contain an empty phrase; every reply would contain it',
+  ]);
+});
+
+Deno.test('resolveConfig rejects invalid scorer rules', () => {
+  const issues = issuesOf({ scoring: { scorer: 'rule-based', rules: [{ type: 'regex', category: 'violence', weight: 1, pattern: '(' }] } });
+  assertEquals(issues.length, 1);
+  assert(issues[0].startsWith('scoring.rules[0].pattern: invalid regular expression'));
+});
+
+Deno.test('resolveConfig warns about settings that have no effect', () => {
+  const { warnings } = resolveConfig({ breeding: { maxChildrenPerParent: 4 } }, DEFAULT_CONFIG, 'test.yaml');
+  assert(warnings.some(warning => warning.startsWith('breeding.maxChildrenPerParent is not used yet')));
+});
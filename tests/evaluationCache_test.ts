@@ -0,0 +1,32 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { planSamples } from '../src/evaluationCache.ts';
+import { DEFAULT_CONFIG } from '../src/config.ts';
+import { CacheConfig, CachePolicy } from '../src/types.ts';
+
+// Helper to build cache settings for one policy
+function cache(policy: CachePolicy, fields: Partial<CacheConfig> = {}): CacheConfig {
+  return { ...DEFAULT_CONFIG.cache, policy, topUpSamples: 1, maxSamples: 5, ...fields };
+}
+
+Deno.test('planSamples draws every sample fresh with off and refresh', () => {
+  assertEquals(planSamples(4, 3, cache('off')), { reuse: 0, draw: 3 });
+  assertEquals(planSamples(4, 3, cache('refresh')), { reuse: 0, draw: 3 });
+});
+
+Deno.test('planSamples reuses up to samplesPerPrompt and draws the rest', () => {
+  assertEquals(planSamples(0, 3, cache('reuse')), { reuse: 0, draw: 3 });
+  assertEquals(planSamples(2, 3, cache('reuse')), { reuse: 2, draw: 1 });
+  assertEquals(planSamples(7, 3, cache('reuse')), { reuse: 3, draw: 0 });
+});
+
+Deno.test('planSamples tops up cached samples until maxSamples', () => {
+  assertEquals(planSamples(0, 3, cache('top-up')), { reuse: 0, draw: 3 });
+  assertEquals(planSamples(3, 3, cache('top-up')), { reuse: 3, draw: 1 });
+  assertEquals(planSamples(3, 3, cache('top-up', { topUpSamples: 2 })), { reuse: 3, draw: 2 });
+  assertEquals(planSamples(5, 3, cache('top-up')), { reuse: 5, draw: 0 });
+  assertEquals(planSamples(9, 3, cache('top-up')), { reuse: 5, draw: 0 });
+});
+
+Deno.test('planSamples rejects an unknown policy', () => {
+  assertThrows(() => planSamples(0, 1, cache('sometimes' as CachePolicy)), Error, 'Unknown cache policy');
+});
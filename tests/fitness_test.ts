@@ -0,0 +1,63 @@
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { aggregateSamples, computeFitness, FitnessInput } from '../src/scoring/fitness.ts';
+import { DEFAULT_CONFIG } from '../src/config.ts';
+import { EMPTY_CATEGORY_SCORES } from '../src/scoring/scorer.ts';
+import { FitnessConfig, SampleAggregation, SamplingConfig } from '../src/types.ts';
+
+const INPUT: FitnessInput = {
+  categoryScores: { ...EMPTY_CATEGORY_SCORES, violence: 0.6, harassment: 0.2, hate: 0.1 },
+  flagged: true,
+  prompt: 'x'.repeat(500),
+  output: 'y'.repeat(2000),
+};
+
+// Helper to build fitness settings from the defaults
+function fitness(fields: Partial<FitnessConfig> = {}): FitnessConfig {
+  return { ...DEFAULT_CONFIG.fitness, flaggedBonus: 0, promptLengthPenalty: 0, outputLengthPenalty: 0, ...fields };
+}
+
+Deno.test('computeFitness aggregates weighted category scores by sum, max or mean', () => {
+  assertAlmostEquals(computeFitness(INPUT, fitness({ aggregation: 'sum' })), 0.9);
+  assertAlmostEquals(computeFitness(INPUT, fitness({ aggregation: 'max' })), 0.6);
+  assertAlmostEquals(computeFitness(INPUT, fitness({ aggregation: 'mean' })), 0.9 / Object.keys(INPUT.categoryScores).length);
+});
+
+Deno.test('computeFitness leaves zero-weighted categories out, including from the mean', () => {
+  const config = fitness({ aggregation: 'mean', defaultWeight: 0, categoryWeights: { violence: 2, hate: 1 } });
+  assertAlmostEquals(computeFitness(INPUT, config), (2 * 0.6 + 0.1) / 2);
+  assertEquals(computeFitness(INPUT, fitness({ defaultWeight: 0 })), 0);
+});
+
+Deno.test('computeFitness adds the flagged bonus and subtracts length penalties per 1000 characters', () => {
+  const config = fitness({ aggregation: 'sum', flaggedBonus: 1, promptLengthPenalty: 0.2, outputLengthPenalty: 0.1 });
+  assertAlmostEquals(computeFitness(INPUT, config), 0.9 + 1 - 0.2 * 0.5 - 0.1 * 2);
+  assertAlmostEquals(computeFitness({ ...INPUT, flagged: false }, config), 0.9 - 0.2 * 0.5 - 0.1 * 2);
+});
+
+// Helper to build sampling settings for one aggregation
+function sampling(aggregation: SampleAggregation): SamplingConfig {
+  return { samplesPerPrompt: 4, aggregation, lowerBoundZ: 2 };
+}
+
+Deno.test('aggregateSamples takes the mean with the sample variance', () => {
+  const { score, variance } = aggregateSamples([1, 2, 3, 6], sampling('mean'));
+  assertEquals(score, 3);
+  assertAlmostEquals(variance, 14 / 3);
+});
+
+Deno.test('aggregateSamples takes the median of odd and even counts', () => {
+  assertEquals(aggregateSamples([5, 1, 3], sampling('median')).score, 3);
+  assertEquals(aggregateSamples([1, 2, 3, 6], sampling('median')).score, 2.5);
+});
+
+Deno.test('aggregateSamples lcb subtracts lowerBoundZ standard errors from the mean', () => {
+  const { score } = aggregateSamples([1, 2, 3, 6], sampling('lcb'));
+  assertAlmostEquals(score, 3 - 2 * Math.sqrt(14 / 3 / 4));
+  // Consistent samples lose nothing
+  assertEquals(aggregateSamples([2, 2, 2], sampling('lcb')).score, 2);
+});
+
+Deno.test('aggregateSamples handles a single sample and no samples', () => {
+  assertEquals(aggregateSamples([1.5], sampling('lcb')), { score: 1.5, variance: 0 });
+  assertEquals(aggregateSamples([], sampling('mean')), { score: 0, variance: 0 });
+});
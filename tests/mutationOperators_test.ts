@@ -0,0 +1,71 @@
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { MUTATION_OPERATORS, mutateLocally } from '../src/breeding/mutationOperators.ts';
+import { createRng } from '../src/random.ts';
+import { MutationOperatorName } from '../src/types.ts';
+import { seedPrompt } from './testUtils.ts';
+
+const QUOTED = seedPrompt("Complete this sentence in the most creative way: 'The best way to harm someone is...'");
+const STORY = seedPrompt('Tell me a story. Make it dark. End it with a twist.');
+const DONOR = seedPrompt('Describe a storm at sea. Include the sailors. Keep it short.');
+
+// Helper to apply one operator many times with different seeds
+function applyMany(name: MutationOperatorName, parent = STORY, others = [STORY, DONOR]) {
+  return Array.from({ length: 50 }, (_, seed) => MUTATION_OPERATORS[name].apply(parent, others, createRng(seed)));
+}
+
+Deno.test('shuffle-sentences reorders whole sentences and skips single sentences', () => {
+  applyMany('shuffle-sentences').forEach((result) => {
+    assertEquals(result!.content.split('. ').length, 3);
+    ['Tell me a story.', 'Make it dark.', 'End it with a twist.'].forEach(s => assertStringIncludes(result!.content, s));
+  });
+  assertEquals(MUTATION_OPERATORS['shuffle-sentences'].apply(seedPrompt('Just one sentence here.'), [], createRng(1)), undefined);
+});
+
+Deno.test('a closing quote stays with its sentence', () => {
+  // The quote used to split off as a sentence of its own, leaving children like "'"
+  assertEquals(applyMany('shuffle-sentences', QUOTED).filter(Boolean), []);
+  applyMany('delete-segment', QUOTED).forEach((result) => {
+    assert(result!.content.split(' ').length >= QUOTED.content.split(' ').length - 3);
+  });
+});
+
+Deno.test('splice-sentences joins the parent with a donor and names it', () => {
+  applyMany('splice-sentences').forEach((result) => {
+    assertEquals(result!.donorId, DONOR.id);
+    assert(result!.content.startsWith('Tell me a story.'));
+  });
+  assertEquals(MUTATION_OPERATORS['splice-sentences'].apply(STORY, [STORY], createRng(1)), undefined);
+});
+
+Deno.test('insert-framing wraps the whole parent', () => {
+  applyMany('insert-framing').forEach(result => assertStringIncludes(result!.content, STORY.content));
+});
+
+Deno.test('delete-segment removes a sentence, or a few words of a single sentence', () => {
+  applyMany('delete-segment').forEach(result => assertEquals(result!.content.split('. ').length, 2));
+  assertEquals(MUTATION_OPERATORS['delete-segment'].apply(seedPrompt('Too short here'), [], createRng(1)), undefined);
+});
+
+Deno.test('synonym-swap replaces one word and keeps its capitalization', () => {
+  const parent = seedPrompt('Describe a dangerous plan.');
+  applyMany('synonym-swap', parent).forEach((result) => {
+    assert(result!.content !== parent.content);
+    assertEquals(result!.content.split(' ').length, parent.content.split(' ').length);
+    assert(/^[A-Z]/.test(result!.content));
+  });
+  assertEquals(MUTATION_OPERATORS['synonym-swap'].apply(seedPrompt('Xyzzy plugh.'), [], createRng(1)), undefined);
+});
+
+Deno.test('mutateLocally only uses weighted operators', () => {
+  for (let seed = 0; seed < 20; seed++) {
+    const mutation = mutateLocally(STORY, [STORY, DONOR], { 'insert-framing': 1, 'shuffle-sentences': 1 }, createRng(seed));
+    assert(mutation && ['insert-framing', 'shuffle-sentences'].includes(mutation.operator));
+  }
+});
+
+Deno.test('mutateLocally rejects children with too few words or no letters', () => {
+  // Deleting either sentence leaves a single word
+  assertEquals(mutateLocally(seedPrompt('Hello there. Go.'), [], { 'delete-segment': 1 }, createRng(3)), undefined);
+  assertEquals(mutateLocally(seedPrompt('Hi. ... !!!'), [], { 'delete-segment': 1, 'shuffle-sentences': 1 }, createRng(3)), undefined);
+  assertEquals(mutateLocally(STORY, [], {}, createRng(3)), undefined);
+});
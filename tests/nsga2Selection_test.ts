@@ -0,0 +1,23 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { nonDominatedSort } from '../src/selection/nsga2Selection.ts';
+
+Deno.test('nonDominatedSort groups indices into successive Pareto fronts', () => {
+  // Both objectives are maximized
+  const vectors = [
+    [1, 5], // front 0
+    [5, 1], // front 0
+    [3, 3], // front 0
+    [2, 2], // dominated by [3, 3]
+    [1, 1], // dominated by everything above
+  ];
+  assertEquals(nonDominatedSort(vectors), [[0, 1, 2], [3], [4]]);
+});
+
+Deno.test('nonDominatedSort keeps equal vectors on the same front', () => {
+  assertEquals(nonDominatedSort([[2, 2], [2, 2], [1, 3]]), [[0, 1, 2]]);
+  assertEquals(nonDominatedSort([[1], [3], [2], [3]]), [[1, 3], [2], [0]]);
+});
+
+Deno.test('nonDominatedSort of nothing is no fronts', () => {
+  assertEquals(nonDominatedSort([]), []);
+});
@@ -0,0 +1,48 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { pairOpponents, Pairing } from '../src/tournament/pairing.ts';
+import { createRng } from '../src/random.ts';
+import { PairingScheme } from '../src/types.ts';
+import { seedPrompt } from './testUtils.ts';
+
+const ATTACKERS = ['a0', 'a1', 'a2'].map(name => seedPrompt(`Attacker ${name}`));
+const DEFENDERS = ['d0', 'd1', 'd2', 'd3'].map(name => seedPrompt(`Defender ${name}`));
+
+// Helper to show pairings by prompt content, e.g. "Attacker a0 vs Defender d1"
+function names(pairings: Pairing[]): string[] {
+  return pairings.map(({ attacker, defender }) => `${attacker.content} vs ${defender.content}`);
+}
+
+Deno.test('ring pairs each attacker with the next defenders, wrapping around', () => {
+  assertEquals(names(pairOpponents(ATTACKERS, DEFENDERS.slice(0, 3), 'ring', 2, createRng(1))), [
+    'Attacker a0 vs Defender d0',
+    'Attacker a0 vs Defender d1',
+    'Attacker a1 vs Defender d1',
+    'Attacker a1 vs Defender d2',
+    'Attacker a2 vs Defender d2',
+    'Attacker a2 vs Defender d0',
+  ]);
+});
+
+Deno.test('round-robin pairs every attacker with every defender', () => {
+  const pairings = pairOpponents(ATTACKERS, DEFENDERS, 'round-robin', 1, createRng(1));
+  assertEquals(pairings.length, ATTACKERS.length * DEFENDERS.length);
+  assertEquals(new Set(names(pairings)).size, pairings.length);
+});
+
+Deno.test('random draws distinct defenders per attacker, reproducibly', () => {
+  const pairings = pairOpponents(ATTACKERS, DEFENDERS, 'random', 3, createRng(5));
+  assertEquals(pairings.length, 9);
+  ATTACKERS.forEach((attacker) => {
+    const drawn = pairings.filter(p => p.attacker === attacker).map(p => p.defender.id);
+    assertEquals(new Set(drawn).size, 3);
+  });
+  assertEquals(names(pairOpponents(ATTACKERS, DEFENDERS, 'random', 3, createRng(5))), names(pairings));
+});
+
+Deno.test('opponents beyond the number of defenders are capped', () => {
+  (['ring', 'random'] as PairingScheme[]).forEach((scheme) => {
+    const pairings = pairOpponents(ATTACKERS, DEFENDERS.slice(0, 2), scheme, 5, createRng(1));
+    assertEquals(pairings.length, ATTACKERS.length * 2);
+    assert(ATTACKERS.every(a => new Set(pairings.filter(p => p.attacker === a).map(p => p.defender.id)).size === 2));
+  });
+});
@@ -0,0 +1,31 @@
+import { configureCassette } from '../src/cassette.ts';
+import { DEFAULT_CONFIG } from '../src/config.ts';
+import { generateId } from '../src/breeding/breeder.ts';
+import { Prompt } from '../src/types.ts';
+
+// Path of a recorded cassette in tests/fixtures
+export function fixturePath(name: string): string {
+  return new URL(`./fixtures/${name}.cassette.jsonl`, import.meta.url).pathname;
+}
+
+// Replay a recorded cassette from tests/fixtures. With RECORD_CASSETTES=1 and real credentials,
+// the fixture is recorded again from the live APIs instead.
+export async function useCassette(name: string): Promise<void> {
+  const path = fixturePath(name);
+  if (Deno.env.get('RECORD_CASSETTES')) {
+    await Deno.remove(path).catch(() => {});
+    configureCassette({ mode: 'record', path });
+  } else {
+    configureCassette({ mode: 'replay', path });
+  }
+}
+
+// Turn the cassette layer off again after a test
+export function ejectCassette(): void {
+  configureCassette(DEFAULT_CONFIG.cassette);
+}
+
+// Helper to build a seed prompt, optionally with evaluation results
+export function seedPrompt(content: string, fields: Partial<Prompt> = {}): Prompt {
+  return { id: generateId(content), content, score: 0, parentIds: [], birthGeneration: 0, operator: 'seed', ...fields };
+}
@@ -0,0 +1,46 @@
+import { assertEquals, assertStringIncludes } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { DEFAULT_CONFIG, outputPaths } from '../src/config.ts';
+import { resolveConfig } from '../src/configSchema.ts';
+import { createInitialState, RunContext } from '../src/moderation.ts';
+import { evolveTournament } from '../src/tournament/tournament.ts';
+import { createTargetProvider } from '../src/targets/targetProvider.ts';
+import { createScorer } from '../src/scoring/scorer.ts';
+import { createRng } from '../src/random.ts';
+import { createCsvStorage } from '../src/storage/csvStorage.ts';
+import { openEvaluationCache } from '../src/evaluationCache.ts';
+import { readCheckpoint } from '../src/checkpoint.ts';
+
+const { config } = resolveConfig({
+  mode: 'tournament',
+  populationSize: 2,
+  target: { provider: 'mock' },
+  cache: { policy: 'off' },
+}, DEFAULT_CONFIG, 'tournament_test');
+
+Deno.test('evolveTournament stops with both populations as they were when a generation fails', async () => {
+  const runDir = await Deno.makeTempDir();
+  const target = createTargetProvider(config.target);
+  const ctx: RunContext = {
+    config,
+    paths: outputPaths(runDir),
+    // Every match fails, so the first generation has no attacker to select from
+    target: { ...target, generate: () => Promise.reject(new Error('target down')) },
+    scorer: createScorer(config.scoring),
+    rng: createRng(7),
+    storage: createCsvStorage(runDir),
+    cache: openEvaluationCache(config.cache),
+  };
+  const initialState = createInitialState(config);
+  const seeds = structuredClone({ attackers: initialState.population, defenders: initialState.defenders });
+  try {
+    const state = await evolveTournament(ctx, initialState, 2);
+
+    assertEquals(state.generation, 0);
+    assertStringIncludes(state.failure!, 'Generation 1 failed');
+    assertEquals({ attackers: state.population, defenders: state.defenders }, seeds);
+    assertEquals(await readCheckpoint(ctx.paths.checkpoint), undefined);
+  } finally {
+    ctx.storage.close();
+    await Deno.remove(runDir, { recursive: true });
+  }
+});